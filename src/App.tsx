@@ -12,14 +12,42 @@ import { SplitText } from './lib/gsap'
 import { LogoMarqueeSection } from './components/LogoMarqueeSection'
 import { SiteFooter } from './components/SiteFooter'
 import { BottomBar } from './components/BottomBar'
+import { SoundToggle } from './components/SoundToggle'
+import { GloveControls } from './components/GloveControls'
+import { MotionToggle } from './components/MotionToggle'
+import { GloveCustomizer } from './components/GloveCustomizer'
+import { ThemeToggle } from './components/ThemeToggle'
+import { subscribeTilt } from './lib/deviceMotion'
+import { recordScrollVelocity } from './lib/scrollVelocity'
+import { readSessionFromUrl, recordScroll, replaySession, setSessionScrollDriver } from './lib/sessionRecording'
+import { TuningPanel } from './components/TuningPanel'
+import { CaptureControls } from './components/CaptureControls'
+import { isCaptureRequested } from './lib/capture'
 import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react'
-import { BREAKPOINTS, Z, TYPE_SCALE, WEIGHT, LETTER_SPACING } from './constants'
-import { colorTokens } from './constants/themes'
+import { BREAKPOINTS, Z, TYPE_SCALE, WEIGHT, LETTER_SPACING, DURATION } from './constants'
+import { colorTokens, graffitiFills } from './constants/themes'
 import { prefersReducedMotion } from './hooks/useReducedMotion'
+import { useQualityTier } from './hooks/useQualityTier'
+import { useThemeMode } from './hooks/useTheme'
+import { useGloveHitTarget } from './hooks/useGloveHitTarget'
+import { useInViewport } from './hooks/useInViewport'
+import type { GloveHitDetail } from './lib/gloveHits'
+import { readPresetFromUrl } from './lib/presets'
+import { boxingGlovesPreset } from './data/presets'
+import type { TuningPreset } from './types'
 import { motion, useMotionValue, useSpring } from 'framer-motion'
 import LocomotiveScroll from 'locomotive-scroll'
 import { gsap, ScrollTrigger } from './lib/gsap'
 
+// A glove punch landing on the graffiti knocks it back for a beat
+function handleGraffitiHit({ strength }: GloveHitDetail, element: Element) {
+  if (prefersReducedMotion()) return
+  element.animate(
+    [{ scale: '1' }, { scale: String(1 - 0.03 * strength) }, { scale: '1' }],
+    { duration: 320, easing: 'cubic-bezier(0.2, 0.8, 0.2, 1)' }
+  )
+}
+
 function App() {
   const containerRef = useRef<HTMLDivElement>(null)
 
@@ -52,14 +80,21 @@ function App() {
     return typeof window !== 'undefined' ? window.innerWidth >= BREAKPOINTS.tabletWide : true
   })
 
-  const themeMode = 'light' as const
+  // Page theme (lib/theme) — follows prefers-color-scheme until ThemeToggle picks one
+  const themeMode = useThemeMode()
+  const isDarkTheme = themeMode === 'dark' || themeMode === 'darkInverted'
+  const graffitiFill = graffitiFills[isDarkTheme ? 'dark' : 'light']
 
-  // Debug grid overlay — toggle with "G" key
+  // Debug grid overlay — toggle with "G" key (also shows the Canvas quality tier)
   const [showGrid, setShowGrid] = useState(false)
+  const quality = useQualityTier()
+  // Tuning panel — toggle with "T" key (dev builds only)
+  const [showTuning, setShowTuning] = useState(false)
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     // Ignore when typing in inputs
     if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
     if (e.key === 'g' || e.key === 'G') setShowGrid(prev => !prev)
+    if (import.meta.env.DEV && (e.key === 't' || e.key === 'T')) setShowTuning(prev => !prev)
   }, [])
 
   useEffect(() => {
@@ -69,6 +104,11 @@ function App() {
       mousePositionRef.current = { x, y }
     }
 
+    // Phone tilt (opt-in via MotionToggle) drives the same tilt target as the mouse
+    const unsubscribeTilt = subscribeTilt((x, y) => {
+      mousePositionRef.current = { x: 0.5 + x * 0.5, y: 0.5 + y * 0.5 }
+    })
+
     const handleResize = () => {
       const w = window.innerWidth
       setShowCursor(w >= BREAKPOINTS.mobile)
@@ -82,6 +122,7 @@ function App() {
     window.addEventListener('resize', handleResize)
     window.addEventListener('keydown', handleKeyDown)
     return () => {
+      unsubscribeTilt()
       window.removeEventListener('mousemove', handleMouseMove)
       window.removeEventListener('resize', handleResize)
       window.removeEventListener('keydown', handleKeyDown)
@@ -100,6 +141,10 @@ function App() {
   const gloveHorizontalRef = useRef(0)  // scroll-driven horizontal zig-zag (sub-desktop only)
   const travelZoneRef = useRef<HTMLDivElement>(null)
   const stickyCanvasRef = useRef<HTMLDivElement>(null)
+  // Render and simulate the gloves only while their travel zone is on screen
+  // (a little early, so they're already moving when they scroll back in)
+  const glovesOnScreen = useInViewport(travelZoneRef, '200px')
+  const graffitiHitRef = useGloveHitTarget('graffiti', handleGraffitiHit) // Glove punches land on either graffiti
 
   // Graffiti parallax — perspective tilt + subtle translate driven by cursor position
   const GRAFFITI_TILT = 2.0  // max degrees of rotation
@@ -156,25 +201,54 @@ function App() {
     // tell it to re-check on every Lenis tick for frame-accurate sync.
     scroll.lenisInstance?.on('scroll', ScrollTrigger.update)
 
-    // Watch for TopCards expanded state to freeze/resume page scroll
+    // Scroll speed feeds inertial kicks on the glove bodies (see HangingSpheres);
+    // scroll progress goes to the session recorder (no-op unless recording)
+    scroll.lenisInstance?.on('scroll', (lenis) => {
+      recordScrollVelocity(lenis.velocity)
+      recordScroll(lenis.progress)
+    })
+
+    // Session replay scrolls the page by progress so combos survive other viewport sizes
+    setSessionScrollDriver((progress) => {
+      scroll.scrollTo(progress * (scroll.lenisInstance?.limit ?? 0), { lerp: 0.25, force: true })
+    })
+
+    // Watch for TopCards expanded state (or a glove in inspect mode) to freeze/resume page scroll
     const observer = new MutationObserver(() => {
-      const expanded = document.documentElement.hasAttribute('data-topcards-expanded')
+      const root = document.documentElement
+      const expanded = root.hasAttribute('data-topcards-expanded') || root.hasAttribute('data-glove-inspect')
       if (expanded) {
         scroll.stop()
       } else {
         scroll.start()
       }
     })
-    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['data-topcards-expanded'] })
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['data-topcards-expanded', 'data-glove-inspect'] })
 
     return () => {
       ScrollTrigger.getAll().forEach(st => st.kill())
+      setSessionScrollDriver(null)
       observer.disconnect()
       scroll.destroy()
       scrollRef.current = null
     }
   }, [])
 
+  // Shared combo link (?combo=…) — replay it once the page has settled (the
+  // replay rehangs the gloves for a drop-in of its own)
+  useEffect(() => {
+    const combo = readSessionFromUrl()
+    if (!combo) return
+    let cancel: (() => void) | undefined
+    const timer = window.setTimeout(() => {
+      cancel = replaySession(combo)
+    }, 2500)
+    return () => {
+      window.clearTimeout(timer)
+      cancel?.()
+    }
+  }, [])
+
   // Scroll-driven glove scale (1.5→1.0) + rotation (0→360°).
   // Both span the full travel zone for a very gradual, scroll-mapped effect.
   useLayoutEffect(() => {
@@ -277,37 +351,10 @@ function App() {
     return () => ctx.revert()
   }, [])
 
-  // Hardcoded shadow settings
-  const shadowSettings = {
-    lightX: 0,
-    lightY: 2.5,
-    lightZ: 10,
-    shadowMapSize: 2048,
-    shadowCameraBounds: 8,
-    shadowCameraFar: 30,
-    shadowRadius: 4,
-    shadowBias: -0.0001,
-    shadowOpacity: 0.08,
-  }
-
-  // Boxing Gloves preset - hardcoded
-  const settings = {
-    color: '#8b0000',
-    metalness: 0.1,
-    roughness: 0.6,
-    envMapIntensity: 0.4,
-    radius: 0.525,
-    mass: 1.2,
-    restitution: 0.02,
-    friction: 0.8,
-    linearDamping: 1.0,
-    gravity: -200,
-    springStrength: 350,
-    stringLength: 2.5,
-    stringThickness: 0.028,
-    stringColor: '#d4a574',
-    ropeDamping: 0.92,
-  }
+  // Glove feel — the shipped Boxing Gloves preset unless a shared ?preset= link
+  // overrides it (validated: out-of-range values are clamped with a warning).
+  const [preset, setPreset] = useState<TuningPreset>(() => readPresetFromUrl() ?? boxingGlovesPreset)
+  const { settings, shadowSettings } = preset
 
   // Graffiti vertical pull-up — responsive so bio text stays aligned with the SVG.
   // Desktop (≥1440): -32vw. Sub-desktop (768–1439): -10vw. Mobile (<768): -5vw.
@@ -470,10 +517,14 @@ function App() {
             }}
           >
             <PeteyGraffitiSvg
+              ref={graffitiHitRef}
+              captureBackground
+              fill={graffitiFill}
               style={{
                 width: '100%',
                 height: '100%',
                 display: 'block',
+                transition: `fill ${DURATION.slow}s ease`,
               }}
             />
 
@@ -587,7 +638,11 @@ function App() {
             }}
           >
             <PeteyGraffitiSvg
+              ref={graffitiHitRef}
+              captureBackground
+              fill={graffitiFill}
               style={{
+                transition: `fill ${DURATION.slow}s ease`,
                 width: `${130 * graffitiScale}vw`,
                 height: 'auto',
                 aspectRatio: '538 / 1185.79',
@@ -621,10 +676,50 @@ function App() {
             settings={settings}
             shadowSettings={shadowSettings}
             themeMode={themeMode}
+            active={glovesOnScreen}
             gloveHorizontalRef={gloveHorizontalRef}
             gloveDuskRef={gloveDuskRef}
             {...(!isMobile && { gloveScaleRef, gloveRotationRef, gloveLeftRotRef, gloveRightRotRef })}
           />
+
+          {/* Keyboard / screen-reader controls for the gloves (visually hidden) */}
+          <GloveControls />
+
+          {/* Phone tilt + shake toggle — touch devices only, top of the toggle stack */}
+          <MotionToggle
+            style={{
+              position: 'absolute',
+              right: isMobile ? 12 : 25,
+              bottom: (isMobile ? 72 : 84) + 144,
+            }}
+          />
+
+          {/* Glove colorway / monogram / finish */}
+          <GloveCustomizer
+            style={{
+              position: 'absolute',
+              right: isMobile ? 12 : 25,
+              bottom: (isMobile ? 72 : 84) + 96,
+            }}
+          />
+
+          {/* Light / dark / system theme — stacked above the sound toggle */}
+          <ThemeToggle
+            style={{
+              position: 'absolute',
+              right: isMobile ? 12 : 25,
+              bottom: (isMobile ? 72 : 84) + 48,
+            }}
+          />
+
+          {/* Glove sound + haptics toggle — rides with the canvas, clear of the BottomBar */}
+          <SoundToggle
+            style={{
+              position: 'absolute',
+              right: isMobile ? 12 : 25,
+              bottom: isMobile ? 72 : 84,
+            }}
+          />
         </motion.div>
 
         {/* ===== Hero Section =====
@@ -713,6 +808,14 @@ function App() {
       {/* Custom cursor (tablet + desktop — useCursorMorph self-disables on pure touch devices) */}
       {showCursor && <CustomCursor />}
 
+      {/* Capture toolbar — PNG snapshot and WebM clip of the glove hero (dev builds, or ?capture) */}
+      {isCaptureRequested() && <CaptureControls />}
+
+      {/* Tuning panel — toggled with T key, stripped from production builds */}
+      {import.meta.env.DEV && showTuning && (
+        <TuningPanel preset={preset} onChange={setPreset} onClose={() => setShowTuning(false)} />
+      )}
+
       {/* Debug grid overlay — toggled with G key (Figma: 12 cols, 25px margin, 20px gutter) */}
       {showGrid && (
         <div
@@ -737,6 +840,20 @@ function App() {
               }}
             />
           ))}
+          <div
+            className="font-inter"
+            style={{
+              position: 'absolute',
+              top: 8,
+              left: 25,
+              padding: '2px 6px',
+              fontSize: 11,
+              color: 'rgba(255, 0, 0, 0.8)',
+              backgroundColor: 'rgba(255, 255, 255, 0.8)',
+            }}
+          >
+            Quality: {quality.name} · dpr {quality.dpr[1]} · shadow {quality.maxShadowMapSize} · rope {quality.ropeSegments}
+          </div>
         </div>
       )}
     </main>
@@ -832,7 +949,7 @@ function BioTextReveal({
         fontWeight: WEIGHT.medium,
         lineHeight: TYPE_SCALE['2xl'].lineHeight,
         letterSpacing: LETTER_SPACING.tighter,
-        color: colorTokens.neutralNearBlack,
+        color: 'var(--text-hero)',
         textAlign,
       }}
     >
@@ -980,7 +1097,7 @@ function AndOccasionallyText({ triggerRef }: { triggerRef: React.RefObject<HTMLD
           fontWeight: WEIGHT.medium,
           lineHeight: TYPE_SCALE['2xl'].lineHeight,
           letterSpacing: LETTER_SPACING.tight,
-          color: colorTokens.neutralNearBlack,
+          color: 'var(--text-hero)',
           textAlign: 'center',
         }}
       >
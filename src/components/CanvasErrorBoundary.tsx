@@ -0,0 +1,20 @@
+import { Component, type ErrorInfo, type ReactNode } from 'react'
+
+// Catches render errors from the 3D scene (WebGL context creation, GLB/Draco
+// loading, Rapier init) and shows `fallback` instead of an empty slot.
+// Error boundaries still have to be class components.
+export class CanvasErrorBoundary extends Component<{ fallback: ReactNode; children: ReactNode }, { failed: boolean }> {
+  state = { failed: false }
+
+  static getDerivedStateFromError() {
+    return { failed: true }
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.warn('[scene] 3D hero failed to render — showing the static poster', error, info.componentStack)
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children
+  }
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react'
+import { Z } from '../constants'
+import {
+  MAX_CLIP_SECONDS,
+  MIN_CLIP_SECONDS,
+  captureFilename,
+  captureSnapshot,
+  downloadBlob,
+  isClipSupported,
+  startClip,
+  type ClipRecording,
+} from '../lib/capture'
+
+// =============================================================================
+// CAPTURE CONTROLS — snapshot / clip toolbar for the glove hero
+// For designers sharing the hero: a 2× PNG (composited over the graffiti, or
+// transparent) and a 3–6 second WebM recorded while playing with the gloves.
+// Both download locally. Shown in development and behind ?capture (see App).
+// =============================================================================
+
+const buttonStyle: React.CSSProperties = { padding: '4px 10px', border: '1px solid #ccc', borderRadius: 4, background: '#fff', cursor: 'pointer' }
+
+export function CaptureControls() {
+  const [busy, setBusy] = useState(false)
+  const [recordingSince, setRecordingSince] = useState<number | null>(null)
+  const [elapsed, setElapsed] = useState(0)
+  const [clipSupported] = useState(isClipSupported)
+  const clip = useRef<ClipRecording | null>(null)
+
+  // Recording timer
+  useEffect(() => {
+    if (recordingSince === null) return
+    const interval = setInterval(() => setElapsed((performance.now() - recordingSince) / 1000), 100)
+    return () => clearInterval(interval)
+  }, [recordingSince])
+
+  const snapshot = async (transparent: boolean) => {
+    setBusy(true)
+    try {
+      downloadBlob(await captureSnapshot({ transparent }), captureFilename('png'))
+    } catch (error) {
+      console.warn(error)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const finishClip = (blob: Blob) => {
+    clip.current = null
+    setRecordingSince(null)
+    setElapsed(0)
+    downloadBlob(blob, captureFilename('webm'))
+  }
+
+  const toggleClip = async () => {
+    if (clip.current) {
+      const recording = clip.current
+      clip.current = null
+      setBusy(true)
+      finishClip(await recording.stop())
+      setBusy(false)
+      return
+    }
+    clip.current = startClip(finishClip)
+    if (clip.current) setRecordingSince(performance.now())
+  }
+
+  const recording = recordingSince !== null
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Capture the glove hero"
+      className="font-inter"
+      style={{
+        position: 'fixed',
+        left: 12,
+        bottom: 12,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 4,
+        padding: 6,
+        zIndex: Z.captureBar,
+        background: 'rgba(255, 255, 255, 0.95)',
+        border: '1px solid #ddd',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0, 0, 0, 0.12)',
+        fontSize: 11,
+        color: '#111',
+      }}
+    >
+      <button type="button" style={buttonStyle} disabled={busy || recording} onClick={() => snapshot(false)}>PNG</button>
+      <button type="button" style={buttonStyle} disabled={busy || recording} onClick={() => snapshot(true)}>PNG (transparent)</button>
+      {clipSupported && (
+        <button type="button" style={buttonStyle} disabled={busy} aria-pressed={recording} onClick={toggleClip}>
+          {recording
+            ? `Stop ${elapsed.toFixed(1)}s${elapsed < MIN_CLIP_SECONDS ? ` (min ${MIN_CLIP_SECONDS}s)` : ''}`
+            : `Record clip (≤${MAX_CLIP_SECONDS}s)`}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,8 @@
-import { motion, useTransform } from 'framer-motion'
+import { useEffect } from 'react'
+import { animate, motion, useMotionValue, useTransform } from 'framer-motion'
 import { useCursorMorph } from '../hooks/useCursorMorph'
+import { useReducedMotion } from '../hooks/useReducedMotion'
+import { subscribeCursorImpact } from '../lib/cursorImpact'
 import { Z } from '../constants'
 
 const DARK_COLOR = 'rgba(0, 0, 0, 0.18)'
@@ -11,8 +14,28 @@ const ICON_PARALLAX = 6
 // Max joystick nub offset during drag (px)
 const NUB_OFFSET = 16
 
+// Squash when a swipe bats a glove — scale lost along the swipe at full
+// strength (the other axis bulges by half that), and the spring-back time (s)
+const SQUASH_MAX = 0.35
+const SQUASH_DURATION = 0.3
+
 export function CustomCursor() {
   const { x, y, rawX, rawY, width, height, borderRadius, opacity, isMorphed, isInverted, mode, isEnabled } = useCursorMorph()
+  const reducedMotion = useReducedMotion()
+  const scaleX = useMotionValue(1)
+  const scaleY = useMotionValue(1)
+
+  // Impact squash: flatten along the swipe's dominant axis, then spring back
+  useEffect(() => {
+    if (reducedMotion) return
+    return subscribeCursorImpact((strength) => {
+      const squash = SQUASH_MAX * (0.4 + 0.6 * strength)
+      const horizontal = Math.abs(rawX.getVelocity()) >= Math.abs(rawY.getVelocity())
+      const transition = { duration: SQUASH_DURATION, ease: 'easeOut' as const }
+      animate(horizontal ? scaleX : scaleY, [1 - squash, 1], transition)
+      animate(horizontal ? scaleY : scaleX, [1 + squash / 2, 1], transition)
+    })
+  }, [reducedMotion, rawX, rawY, scaleX, scaleY])
 
   // When morphed, cursor disappears — the element itself becomes the feedback
   const cursorOpacity = useTransform(
@@ -99,6 +122,8 @@ export function CustomCursor() {
         opacity: cursorOpacity,
         translateX: '-50%',
         translateY: '-50%',
+        scaleX,
+        scaleY,
         background,
         pointerEvents: 'none',
         zIndex: Z.cursor,
@@ -0,0 +1,78 @@
+import { useCallback, useState } from 'react'
+import type { HangingSceneManifest } from '../types'
+import { hangingScene } from '../data/hangingObjects'
+import { getGloveController, type GloveDirection } from '../lib/gloveControls'
+import { prefersReducedMotion } from '../hooks/useReducedMotion'
+
+const KEY_DIRECTIONS: Record<string, GloveDirection> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+}
+
+const SWING_WORDS: Record<GloveDirection, string> = {
+  left: 'swung left',
+  right: 'swung right',
+  up: 'swung up',
+  down: 'pulled down',
+}
+
+// Keyboard + screen-reader access to the hanging gloves. One visually hidden
+// button per manifest object; focus shows a ring around the glove in 3D (see
+// DraggableGloveWithRope), and every action the glove actually takes is
+// described in a polite live region (a held, snapped or replaying glove stays quiet).
+export function GloveControls({ manifest = hangingScene }: { manifest?: HangingSceneManifest }) {
+  const [announcement, setAnnouncement] = useState('')
+
+  // Toggle a trailing no-break space so repeating the same action is announced again
+  const announce = useCallback((message: string) => {
+    setAnnouncement((prev) => (prev === message ? `${message}\u00a0` : message))
+  }, [])
+
+  const handleKeyDown = (id: string, label: string) => (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    const controller = getGloveController(id)
+    if (!controller) return
+
+    if (e.key === 'i' || e.key === 'I') {
+      if (controller.inspect()) announce(`Inspecting ${label}. Drag to turn it, scroll to zoom, Escape to return.`)
+      return
+    }
+
+    const direction = KEY_DIRECTIONS[e.key]
+    if (!direction) return
+    e.preventDefault() // Keep arrows from scrolling the page
+    if (controller.nudge(direction)) announce(`${label} ${SWING_WORDS[direction]}`)
+  }
+
+  // Space / Enter (and screen-reader activation) arrive as a native click
+  const handlePunch = (id: string, label: string) => () => {
+    const controller = getGloveController(id)
+    if (!controller) return
+    if (!controller.punch()) return
+    announce(prefersReducedMotion() ? `${label} punched gently` : `${label} punched`)
+  }
+
+  return (
+    <div className="sr-only">
+      <p id="glove-controls-help">Arrow keys swing the glove. Space or Enter throws a punch. I inspects it up close.</p>
+      {manifest.objects.map((object) => (
+        <button
+          key={object.id}
+          type="button"
+          aria-label={object.label}
+          aria-describedby="glove-controls-help"
+          onKeyDown={handleKeyDown(object.id, object.label)}
+          onClick={handlePunch(object.id, object.label)}
+          onFocus={() => getGloveController(object.id)?.setFocused(true)}
+          onBlur={() => getGloveController(object.id)?.setFocused(false)}
+        >
+          {object.label}
+        </button>
+      ))}
+      <div aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+    </div>
+  )
+}
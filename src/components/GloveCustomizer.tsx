@@ -0,0 +1,217 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import { IoColorPalette, IoColorPaletteOutline } from 'react-icons/io5'
+import type { GloveCustomization, GloveFinish } from '../types'
+import { colorTokens } from '../constants/themes'
+import { elevations } from '../constants/elevations'
+import { DURATION } from '../constants'
+import { useGloveCustomization } from '../hooks/useGloveCustomization'
+import { customizationUrl, sanitizeMonogram, setGloveCustomization } from '../lib/gloveCustomization'
+import { CUFF_COLORS, GLOVE_FINISHES, LEATHER_COLORWAYS, defaultGloveCustomization } from '../data/gloveCustomization'
+
+const SIZE = 40
+const SWATCH = 24
+
+const legendStyle: React.CSSProperties = { fontWeight: 600, marginBottom: 6 }
+const fieldsetStyle: React.CSSProperties = { border: 'none', padding: 0, margin: '0 0 12px' }
+const textButtonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  border: `1px solid ${colorTokens.neutralDarkGray}`,
+  borderRadius: 999,
+  background: 'transparent',
+  color: colorTokens.neutralDarkGray,
+  cursor: 'pointer',
+}
+
+function Swatches({ label, options, value, onChange }: {
+  label: string
+  options: { name: string; color: string }[]
+  value: string
+  onChange: (color: string) => void
+}) {
+  return (
+    <fieldset style={fieldsetStyle}>
+      <legend style={legendStyle}>{label}</legend>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 6 }}>
+        {options.map((option) => (
+          <button
+            key={option.color}
+            type="button"
+            aria-pressed={value === option.color}
+            aria-label={option.name}
+            title={option.name}
+            onClick={() => onChange(option.color)}
+            style={{
+              width: SWATCH,
+              height: SWATCH,
+              borderRadius: SWATCH / 2,
+              background: option.color,
+              border: `1px solid ${colorTokens.neutralDarkGray}33`,
+              boxShadow: value === option.color ? `0 0 0 2px ${colorTokens.surfaceWhite}, 0 0 0 4px ${colorTokens.blueUi}` : 'none',
+              cursor: 'pointer',
+            }}
+          />
+        ))}
+        <input
+          type="color"
+          aria-label={`Custom ${label.toLowerCase()} color`}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          style={{ width: SWATCH + 4, height: SWATCH + 4, padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
+        />
+      </div>
+    </fieldset>
+  )
+}
+
+// Visitor-facing glove customizer: leather colorway, cuff color, stitched
+// monogram and finish. Sits in the canvas toggle stack; changes apply live
+// (lib/gloveCustomization persists them) and "Copy link" shares the look.
+export function GloveCustomizer({ style }: { style?: React.CSSProperties }) {
+  const customization = useGloveCustomization()
+  const [open, setOpen] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const panelId = useId()
+  const buttonRef = useRef<HTMLButtonElement>(null)
+
+  // Escape closes the panel and hands focus back to the toggle
+  useEffect(() => {
+    if (!open) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      setOpen(false)
+      buttonRef.current?.focus()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [open])
+
+  useEffect(() => {
+    if (!copied) return
+    const timeout = setTimeout(() => setCopied(false), 1500)
+    return () => clearTimeout(timeout)
+  }, [copied])
+
+  const update = (patch: Partial<GloveCustomization>) => setGloveCustomization({ ...customization, ...patch })
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(customizationUrl(customization))
+      setCopied(true)
+    } catch {
+      console.warn('[customization] clipboard is unavailable')
+    }
+  }
+
+  return (
+    <div style={style}>
+      {open && (
+        <div
+          id={panelId}
+          role="dialog"
+          aria-label="Customize the gloves"
+          className="font-inter"
+          style={{
+            position: 'absolute',
+            right: SIZE + 8,
+            bottom: 0,
+            width: 248,
+            padding: 16,
+            borderRadius: 16,
+            background: colorTokens.surfaceWhiteHover,
+            border: `1px solid ${colorTokens.surfaceWhite}`,
+            boxShadow: elevations.sm,
+            backdropFilter: 'blur(12px)',
+            WebkitBackdropFilter: 'blur(12px)',
+            color: colorTokens.neutralDarkGray,
+            fontSize: 12,
+          }}
+        >
+          <Swatches label="Leather" options={LEATHER_COLORWAYS} value={customization.leather} onChange={(leather) => update({ leather })} />
+          <Swatches label="Cuff" options={CUFF_COLORS} value={customization.cuff} onChange={(cuff) => update({ cuff })} />
+
+          <label style={{ display: 'block', margin: '0 0 12px' }}>
+            <span style={{ ...legendStyle, display: 'block' }}>Monogram</span>
+            <input
+              value={customization.monogram}
+              onChange={(e) => update({ monogram: sanitizeMonogram(e.target.value) })}
+              placeholder="ABC"
+              maxLength={3}
+              autoComplete="off"
+              spellCheck={false}
+              style={{
+                width: '100%',
+                padding: '4px 8px',
+                border: `1px solid ${colorTokens.neutralDarkGray}33`,
+                borderRadius: 8,
+                background: colorTokens.surfaceWhite,
+                letterSpacing: '0.2em',
+                textTransform: 'uppercase',
+              }}
+            />
+          </label>
+
+          <fieldset style={fieldsetStyle}>
+            <legend style={legendStyle}>Finish</legend>
+            <div style={{ display: 'flex', gap: 4 }}>
+              {(Object.keys(GLOVE_FINISHES) as GloveFinish[]).map((finish) => (
+                <button
+                  key={finish}
+                  type="button"
+                  aria-pressed={customization.finish === finish}
+                  onClick={() => update({ finish })}
+                  style={{
+                    ...textButtonStyle,
+                    flex: 1,
+                    background: customization.finish === finish ? colorTokens.neutralDarkGray : 'transparent',
+                    color: customization.finish === finish ? colorTokens.surfaceWhite : colorTokens.neutralDarkGray,
+                  }}
+                >
+                  {GLOVE_FINISHES[finish].label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: 4 }}>
+            <button type="button" style={textButtonStyle} onClick={() => setGloveCustomization(defaultGloveCustomization)}>
+              Reset
+            </button>
+            <button type="button" style={textButtonStyle} onClick={copyLink} aria-live="polite">
+              {copied ? 'Copied' : 'Copy link'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <button
+        ref={buttonRef}
+        type="button"
+        aria-expanded={open}
+        aria-controls={open ? panelId : undefined}
+        aria-label={open ? 'Close the glove customizer' : 'Customize the gloves'}
+        title="Customize"
+        data-cursor="morph"
+        onClick={() => setOpen(!open)}
+        style={{
+          width: SIZE,
+          height: SIZE,
+          borderRadius: SIZE / 2,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: colorTokens.surfaceWhiteHover,
+          border: `1px solid ${colorTokens.surfaceWhite}`,
+          boxShadow: elevations.sm,
+          backdropFilter: 'blur(4px)',
+          WebkitBackdropFilter: 'blur(4px)',
+          color: colorTokens.neutralDarkGray,
+          fontSize: 18,
+          cursor: 'pointer',
+          transition: `background ${DURATION.normal}s ease`,
+        }}
+      >
+        {open ? <IoColorPalette aria-hidden="true" /> : <IoColorPaletteOutline aria-hidden="true" />}
+      </button>
+    </div>
+  )
+}
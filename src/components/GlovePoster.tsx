@@ -0,0 +1,54 @@
+import { colorTokens } from '../constants/themes'
+
+const LEATHER = colorTokens.redBrand
+const CUFF = '#f4efe6'
+const STRING = '#2a2a2a'
+
+// One glove, cuff at the origin, knuckles pointing down (~40 units tall)
+function GloveShape() {
+  return (
+    <g>
+      <path d="M -10 8 C -14 16, -15 30, -9 38 C -4 43, 6 43, 10 37 C 14 30, 14 16, 10 8 Z" fill={LEATHER} />
+      <path d="M 9 15 C 16 15, 18 26, 12 31 L 9 29 Z" fill={LEATHER} />
+      <ellipse cx={-4} cy={22} rx={3} ry={9} fill="rgba(255, 255, 255, 0.18)" />
+      <rect x={-8} y={0} width={16} height={9} rx={1.5} fill={CUFF} />
+      <path d="M -3 2 L 3 6 M 3 2 L -3 6" stroke={STRING} strokeWidth={0.6} strokeLinecap="round" />
+    </g>
+  )
+}
+
+// Static stand-in for the 3D gloves — shown in the sticky canvas slot when
+// WebGL is unavailable, the context is lost, or the scene fails to render.
+// Composition matches the resting hang (ropes converging above, left glove
+// slightly higher) so the hero still reads with the graffiti behind it.
+export function GlovePoster() {
+  return (
+    <div
+      role="img"
+      aria-label="Two boxing gloves hanging on strings"
+      style={{
+        position: 'absolute',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        pointerEvents: 'none',
+      }}
+    >
+      <svg
+        viewBox="0 0 200 200"
+        preserveAspectRatio="xMidYMid meet"
+        style={{ height: '100%', maxWidth: '100%', filter: 'drop-shadow(0 6px 10px rgba(0, 0, 0, 0.12))' }}
+        aria-hidden="true"
+      >
+        <path d="M 100 -10 L 86 74 M 100 -10 L 114 82" stroke={STRING} strokeWidth={0.6} fill="none" />
+        <g transform="translate(86 74) rotate(6) scale(-1 1)">
+          <GloveShape />
+        </g>
+        <g transform="translate(114 82) rotate(-5)">
+          <GloveShape />
+        </g>
+      </svg>
+    </div>
+  )
+}
@@ -1,33 +1,97 @@
-import { useRef, useCallback, useMemo, useEffect, type RefObject } from 'react'
-import { useFrame, useThree } from '@react-three/fiber'
-import { useGLTF } from '@react-three/drei'
-import { RigidBody, BallCollider, CuboidCollider, CylinderCollider } from '@react-three/rapier'
-import type { RapierRigidBody } from '@react-three/rapier'
+import { useRef, useCallback, useMemo, useEffect, useState, type RefObject } from 'react'
+import { useFrame, useThree, type ThreeEvent } from '@react-three/fiber'
+import { Billboard, useGLTF } from '@react-three/drei'
 import * as THREE from 'three'
-import type { Settings } from '../types'
+import type { ColliderRecipe, HangingObjectConfig, HangingSceneManifest, Settings, Vec3 } from '../types'
 import { prefersReducedMotion } from '../hooks/useReducedMotion'
-import leftGloveModelUrl from '../assets/gloveLEFT.glb?url'
-import rightGloveModelUrl from '../assets/gloveRIGHT.glb?url'
-
-// Rope segments for smooth curve
-const ROPE_SEGMENTS = 32
+import { PHYSICS_TIMESTEP } from '../constants/physics'
+import { createRope, resetRope, setRopeLength, stepRope } from '../lib/rope'
+import { playCreak, playThump, playWhoosh } from '../lib/gloveAudio'
+import { MAX_ROPE_TWIST } from '../lib/gloveRig'
+import { getGloveBody, registerGloveBody, setGloveWorldCursor, setGloveWorldFloor, subscribeGloveWorldStep } from '../lib/gloveWorld'
+import type { GloveWorldEvent } from '../lib/gloveWorldProtocol'
+import { collideRope, registerTangleMember, stepTangle } from '../lib/ropeTangle'
+import { mulberry32, seedFromString } from '../lib/random'
+import { registerGloveController, type GloveDirection } from '../lib/gloveControls'
+import { subscribeShake } from '../lib/deviceMotion'
+import { getSessionMode, isReplayingSession } from '../lib/sessionRecording'
+import { dispatchGloveHit } from '../lib/gloveHits'
+import { emitCursorImpact } from '../lib/cursorImpact'
+import { recordRopeSnap } from '../lib/ropeSnaps'
+import { getInspectedGlove, inspectGlove, registerInspectTarget, subscribeGloveInspect } from '../lib/gloveInspect'
+import { createMonogramDecal, createMonogramTexture, drawMonogram, installGloveRecolor, updateGloveFrost, updateGloveRecolor, type GloveRecolorUniforms } from '../lib/gloveMaterial'
+import { frostAmount, getNycWeather, windAccelAt } from '../lib/nycWeather'
+import { useGloveCustomization } from '../hooks/useGloveCustomization'
+import { useNycWeather } from '../hooks/useNycWeather'
+import { GLOVE_FINISHES } from '../data/gloveCustomization'
+import { colorTokens } from '../constants/themes'
+import { hangingScene } from '../data/hangingObjects'
+
+// Rope tube resolution — tubular segments come from the quality tier (lib/quality)
 const ROPE_RADIAL_SEGMENTS = 8
 
+// Verlet rope simulation
+const ROPE_NODES = 16              // Particles in the simulated chain (anchor → glove)
+const ROPE_ITERATIONS = 12         // Constraint passes per step — higher = less stretch
+const ROPE_END_INVERSE_MASS = 0.05 // Glove is ~20× a rope particle, so the rope tugs but can't drag it
+const MAX_ROPE_STEPS = 4           // Cap on catch-up rope steps per frame (after a hitch)
+
+// Rope contact and twist (lib/ropeTangle, lib/gloveRig)
+const GLOVE_CONTACT_RADIUS = 1.2   // Glove collision sphere for other ropes, in multiples of Settings.radius
+const TWIST_SHORTENING = 0.08      // Share of rope length taken up when fully wound
+const TWIST_KINK = 1.5             // Helix amplitude per full turn of twist, in rope thicknesses
+const TWIST_COILS_PER_RADIAN = 0.5 // Helix coils along the rope per radian of twist
+
+// Sound — impulse levels that map to full-strength audio (strength 1)
+const CONTACT_FORCE_FULL = 400 // Rapier contact force magnitude (N) for the loudest thump, at the default Settings.mass
+const ROPE_BOUNCE_FULL = 6     // Outward radial speed (units/s) for the loudest creak
+const FLING_SPEED_FULL = 8     // Release speed (units/s) for the loudest whoosh
+
+// Keyboard control — velocity changes (units/s) in screen space
+const KEYBOARD_NUDGE_SPEED = 2.5
+const KEYBOARD_PUNCH_SPEED = 6
+const KEYBOARD_PUNCH_SPIN = 4        // Forward pitch (rad/s) so the knuckles lead the punch
+const REDUCED_IMPULSE_SCALE = 0.4   // Keyboard/shake impulse scale under prefers-reduced-motion (no spin either)
+
+// Tap-to-punch — a pointer down/up without a drag jabs the glove at the tapped point
+const TAP_MAX_DURATION = 250 // ms between pointer down and up
+const TAP_MAX_TRAVEL = 6     // px the pointer may wander and still count as a tap
+const TAP_DOUBLE_WINDOW = 300 // ms a tap waits before punching, in case it's the first half of a double-click (inspect)
+const JAB_REACH = 1.2        // Units the fist travels toward the target (clamped to the string)
+const JAB_DEAD_ZONE = 0.1    // A tap this close to the glove center jabs straight at the viewer
+
+// Phone shake (lib/deviceMotion) — velocity change at full shake strength
+const SHAKE_SPEED = 5
+const SHAKE_SPIN = 3
+
+// Weather wind (lib/nycWeather) — the rope catches more of it than the heavy glove
+const ROPE_WIND_SCALE = 2
+
+// Rope snap — the glove falls and bounces on the canvas floor for a moment,
+// fades out (seconds), then a fresh one drops in
+const SNAP_FADE_DELAY = 1.2
+const SNAP_FADE_DURATION = 0.6
+
+// Cursor collider — pointer speed (px/s) a swipe needs before it bats a glove,
+// from Settings.cursorSensitivity near 0 up to 1 (0 itself turns it off)
+const CURSOR_SWIPE_SPEED_LOW = 3000
+const CURSOR_SWIPE_SPEED_HIGH = 600
+
+const NUDGE_VECTORS: Record<GloveDirection, [number, number]> = {
+  left: [-1, 0],
+  right: [1, 0],
+  up: [0, 1],
+  down: [0, -1],
+}
+
+// Reusable curve through the simulated rope nodes (plus the off-screen lead-in point)
+const _ropeCurve = new THREE.CatmullRomCurve3([], false, 'centripetal')
+
 // Helper to create a reusable tube geometry that can be updated in place
-// Takes initial anchor and glove positions to create geometry at the right location from the start
-function createRopeGeometry(
-  thickness: number,
-  anchorPos?: THREE.Vector3,
-  glovePos?: THREE.Vector3
-): THREE.TubeGeometry {
-  // If positions provided, create geometry at correct initial location
-  // Otherwise create a minimal geometry that will be updated on first frame
-  const start = anchorPos ? new THREE.Vector3(0, anchorPos.y + 4, 0) : new THREE.Vector3(0, 7.2, 0)
-  const end = glovePos || new THREE.Vector3(0, 0.7, 0)
-  const mid = new THREE.Vector3().lerpVectors(start, end, 0.5)
-
-  const curve = new THREE.QuadraticBezierCurve3(start, mid, end)
-  return new THREE.TubeGeometry(curve, ROPE_SEGMENTS, thickness, ROPE_RADIAL_SEGMENTS, false)
+// Takes the initial rope points so the geometry starts at the right location
+function createRopeGeometry(thickness: number, points: THREE.Vector3[], segments: number): THREE.TubeGeometry {
+  const curve = new THREE.CatmullRomCurve3(points, false, 'centripetal')
+  return new THREE.TubeGeometry(curve, segments, thickness, ROPE_RADIAL_SEGMENTS, false)
 }
 
 // Reusable vectors for updateRopeGeometry (avoid per-frame allocation)
@@ -41,21 +105,26 @@ const _refDir = new THREE.Vector3(0, 0, 1) // Fixed reference for stable normals
 
 // Update tube geometry vertices in place without creating new geometry.
 // Uses a fixed-reference-vector approach instead of Frenet frames to avoid
-// normal flipping on near-straight or low-curvature curves.
+// normal flipping on near-straight or low-curvature curves. A twisted rope
+// kinks into a helix — loosest mid-span, pinned straight at both ends.
 function updateRopeGeometry(
   geometry: THREE.TubeGeometry,
   points: THREE.Vector3[],
-  thickness: number
+  thickness: number,
+  twist = 0
 ): void {
-  const curve = new THREE.QuadraticBezierCurve3(points[0], points[1], points[2])
-  const tubularSegments = ROPE_SEGMENTS
+  _ropeCurve.points = points
+  const curve = _ropeCurve
+  const tubularSegments = geometry.parameters.tubularSegments
   const radialSegments = ROPE_RADIAL_SEGMENTS
   const position = geometry.attributes.position
 
   for (let i = 0; i <= tubularSegments; i++) {
+    // Sample by node parameter (not arc length) so the long, straight
+    // off-screen lead-in doesn't steal resolution from the simulated chain
     const u = i / tubularSegments
-    curve.getPointAt(u, _P)
-    curve.getTangentAt(u, _T)
+    curve.getPoint(u, _P)
+    curve.getTangent(u, _T)
 
     // Build a stable frame from a fixed reference direction.
     // B = normalize(T × ref), N = normalize(B × T)
@@ -67,6 +136,12 @@ function updateRopeGeometry(
     _B.normalize()
     _N.crossVectors(_B, _T).normalize()
 
+    if (twist !== 0) {
+      const kink = thickness * TWIST_KINK * Math.min(Math.abs(twist) / (Math.PI * 2), 2) * Math.sin(Math.PI * u)
+      const phase = u * twist * TWIST_COILS_PER_RADIAN * Math.PI * 2
+      _P.addScaledVector(_N, Math.cos(phase) * kink).addScaledVector(_B, Math.sin(phase) * kink)
+    }
+
     for (let j = 0; j <= radialSegments; j++) {
       const v = (j / radialSegments) * Math.PI * 2
       const sin = Math.sin(v)
@@ -91,32 +166,85 @@ function updateRopeGeometry(
   geometry.computeBoundingSphere()
 }
 
-// Fixed configuration
-const ANCHOR_POSITION: [number, number, number] = [0, 3.2, 0] // Single shared origin
+const _dragPlane = new THREE.Plane()
+const _dragPlanePoint = new THREE.Vector3()
+const _cameraDir = new THREE.Vector3()
+const _inverseGroupMatrix = new THREE.Matrix4()
+
+// Intersect a world-space pointer ray with the drag plane — camera-facing,
+// through `through` (local physics space) — and return the hit in local
+// physics space. `group` carries ScrollRotationGroup, ScaleGroup,
+// HorizontalTranslateGroup etc., so its matrix is refreshed on every call.
+function projectOntoDragPlane(
+  ray: THREE.Ray,
+  camera: THREE.Camera,
+  group: THREE.Object3D,
+  through: THREE.Vector3,
+  out: THREE.Vector3
+): boolean {
+  group.updateWorldMatrix(true, false)
+  _dragPlanePoint.copy(through).applyMatrix4(group.matrixWorld)
+  camera.getWorldDirection(_cameraDir)
+  _dragPlane.setFromNormalAndCoplanarPoint(_cameraDir.negate(), _dragPlanePoint)
+  if (!ray.intersectPlane(_dragPlane, out)) return false
+  out.applyMatrix4(_inverseGroupMatrix.copy(group.matrixWorld).invert())
+  return true
+}
 
+// The CustomCursor takes over on the canvas while a glove is hovered or
+// dragged — data-cursor tells useCursorMorph which shape to morph into
+function setCanvasCursor(canvas: HTMLElement, mode: 'grab' | 'drag' | null) {
+  canvas.style.cursor = mode ? 'none' : 'default'
+  if (mode) canvas.setAttribute('data-cursor', mode)
+  else canvas.removeAttribute('data-cursor')
+}
 
-// Draggable glove with soft string constraint
+// Scale a manifest vector (multiples of radius) to world units, mirroring across X if needed
+function scaleRecipe(v: Vec3, radius: number, mirror: number): Vec3 {
+  return [v[0] * radius * mirror, v[1] * radius, v[2] * radius]
+}
+
+// A manifest collider recipe in world units for the physics worker. Mirroring
+// across X flips the X offset and the rotations about Y and Z.
+function scaleCollider(recipe: ColliderRecipe, radius: number, mirror: number): ColliderRecipe {
+  const position = scaleRecipe(recipe.position ?? [0, 0, 0], radius, mirror)
+  if (recipe.shape === 'ball') {
+    return { shape: 'ball', radius: recipe.radius * radius, position }
+  }
+  const [rx, ry, rz] = recipe.rotation ?? [0, 0, 0]
+  const rotation: Vec3 = [rx, ry * mirror, rz * mirror]
+  if (recipe.shape === 'cylinder') {
+    return { shape: 'cylinder', halfHeight: recipe.halfHeight * radius, radius: recipe.radius * radius, position, rotation }
+  }
+  return { shape: 'cuboid', halfExtents: scaleRecipe(recipe.halfExtents, radius, 1), position, rotation }
+}
+
+// Draggable hanging object (glove by default) with soft string constraint
 function DraggableGloveWithRope({
-  anchorOffset,
+  config,
+  ropeOrigin,
   settings,
-  dropDelay = 0,
+  ropeSegments,
   themeMode = 'light',
-  modelUrl,
-  yRotation = Math.PI,
   scrollRotRef,
 }: {
-  anchorOffset: [number, number, number]
+  config: HangingObjectConfig // Model, colliders, anchor, rope and drop timing from the manifest
+  ropeOrigin: Vec3 // Off-screen point the rope runs up to above the anchor
   settings: Settings
-  dropDelay?: number // Delay in ms before enabling physics (for staggered drop)
+  ropeSegments: number // Tubular segments for the rope tube (quality tier)
   themeMode?: 'light' | 'inverted' | 'dark' | 'darkInverted' // Theme mode for color adjustments
-  modelUrl: string // URL to the glove GLB model
-  yRotation?: number // Initial Y-axis rotation in radians
   scrollRotRef?: RefObject<number> // Per-glove scroll-driven Y rotation
 }) {
-  const gloveRef = useRef<RapierRigidBody>(null)
+  const { modelUrl, yRotation, dropDelay, mirrored } = config
+  const mirror = mirrored ? -1 : 1
+  const stringLength = settings.stringLength + config.ropeLengthOffset
+  const body = useMemo(() => getGloveBody(config.id), [config.id]) // Stand-in for the worker's Rapier body (lib/gloveWorld)
+  const bodyGroupRef = useRef<THREE.Group>(null) // Follows the interpolated body — carries the pointer hit box
   const tubeRef = useRef<THREE.Mesh>(null)
   const { camera, gl } = useThree()
   const reducedMotion = useMemo(() => prefersReducedMotion(), [])
+  const customization = useGloveCustomization()
+  const frost = frostAmount(useNycWeather())
 
   // When reduced motion is active, skip the staggered drop delay
   const effectiveDropDelay = reducedMotion ? 0 : dropDelay
@@ -124,49 +252,43 @@ function DraggableGloveWithRope({
   // Load the GLB model (with Draco decoder for compressed meshes)
   const { scene: gloveModel } = useGLTF(modelUrl, true)
   const isDragging = useRef(false)
-  const dragPlane = useRef(new THREE.Plane())
-  const intersection = useRef(new THREE.Vector3())
   const offset = useRef(new THREE.Vector3())
   const velocityHistory = useRef<THREE.Vector3[]>([])
   const lastPosition = useRef(new THREE.Vector3())
-  const hasDropped = useRef(false)
-  const dropDelayElapsed = useRef(effectiveDropDelay === 0)
-  const dropStartTime = useRef<number | null>(null)
-  const dragEndTime = useRef<number>(0) // Timestamp when drag ended, for post-drag settle
+  const lastMoveTime = useRef(0) // performance.now() of the last drag sample
+  const rng = useRef(mulberry32(seedFromString(config.id))) // Seeded shake direction — reseeded by session replay
+  const random = useCallback(() => rng.current(), [])
   const touchMoveBlocker = useRef<((e: TouchEvent) => void) | null>(null)
+  const tapStart = useRef({ time: 0, x: 0, y: 0 }) // Pointer-down time and screen point, for tap detection
+  const tapTarget = useRef(new THREE.Vector3()) // Drag-plane hit under the pointer-down (local physics space)
+  const pendingTap = useRef<ReturnType<typeof setTimeout> | null>(null) // Tap-punch waiting out the double-click window
+  const secondTap = useRef(false) // This press came while a tap was pending — a double-click, not a punch
+  const jabbing = useRef(false) // Tap-punch in flight (the worker reports when it lands)
+  const snap = useRef<{ at: number; rehung: boolean } | null>(null) // Rope snapped at performance.now(); rehang requested
 
   // Reusable Vector3 objects to avoid garbage collection in useFrame
   const tempVec = useRef({
     gloveCenter: new THREE.Vector3(),
-    toGlove: new THREE.Vector3(),
-    direction: new THREE.Vector3(),
-    constrainedPos: new THREE.Vector3(),
-    naturalPos: new THREE.Vector3(),
-    toNatural: new THREE.Vector3(),
-    restoreForce: new THREE.Vector3(),
-    worldDown: new THREE.Vector3(0, -1, 0),
-    gloveDown: new THREE.Vector3(),
-    torqueAxis: new THREE.Vector3(),
     gloveAttach: new THREE.Vector3(),
     attachOffset: new THREE.Vector3(), // Local offset for rope attachment point
-    mid: new THREE.Vector3(),
-    quarter: new THREE.Vector3(),
-    threeQuarter: new THREE.Vector3(),
+    ropeCorrection: new THREE.Vector3(), // Pull of the simulated rope on the glove end (one step)
+    ropeTension: new THREE.Vector3(), // Summed rope pull over this frame's steps
+    wind: new THREE.Vector3(), // Weather wind acceleration, refreshed every frame
+    ropeWind: new THREE.Vector3(), // The same wind as felt by the rope particles
   })
   const tempQuat = useRef(new THREE.Quaternion())
   const scrollQuat = useRef(new THREE.Quaternion()) // Reusable quat for scroll-driven rotation
   const physicsGroupRef = useRef<THREE.Group>(null) // Top-level group for world↔local transforms
+  const screenPos = useRef(new THREE.Vector3()) // Scratch vector for projecting the glove to screen space
   const inverseParentMatrix = useRef(new THREE.Matrix4()) // Cached inverse of parent world matrix
+  const keyboardImpulse = useRef(new THREE.Vector3()) // Scratch vector for keyboard nudges/punches
+  const keyboardQuat = useRef(new THREE.Quaternion()) // Scratch quat for camera → physics space
+  const focusRingRef = useRef<THREE.Group>(null)
+  const [focused, setFocused] = useState(false) // Keyboard focus from GloveControls
 
   // This glove's anchor point - memoized to prevent recreation
-  const anchorPos = useMemo(() => new THREE.Vector3(
-    ANCHOR_POSITION[0] + anchorOffset[0],
-    ANCHOR_POSITION[1] + anchorOffset[1],
-    ANCHOR_POSITION[2] + anchorOffset[2]
-  ), [anchorOffset])
-
-  // Determine if this is the left glove (for rope attachment) - computed once
-  const isLeftGlove = useMemo(() => anchorOffset[0] < 0, [anchorOffset])
+  const [anchorX, anchorY, anchorZ] = config.anchor
+  const anchorPos = useMemo(() => new THREE.Vector3(anchorX, anchorY, anchorZ), [anchorX, anchorY, anchorZ])
 
   // Create rope geometry once and reuse it
   // Pass initial positions so the rope is visible immediately (not at origin)
@@ -177,18 +299,37 @@ function DraggableGloveWithRope({
     anchorPos.z
   ), [anchorPos])
 
-  const ropeGeometry = useMemo(
-    () => createRopeGeometry(settings.stringThickness, anchorPos, initialGlovePos),
-    [settings.stringThickness, anchorPos, initialGlovePos]
+  // Rope attachment offset from the glove center (local space, before rotation).
+  // Sits at the stitching area on the upper front of the glove.
+  const [attachX, attachY, attachZ] = config.ropeAttach
+  const attachLocal = useMemo(
+    () => new THREE.Vector3(...scaleRecipe([attachX, attachY, attachZ], settings.radius, mirror)),
+    [attachX, attachY, attachZ, settings.radius, mirror]
   )
 
-  // Reusable array for rope curve points (avoid allocation in useFrame)
-  // 3 points: anchor + mid (with sag) + gloveAttach
-  const ropePoints = useRef<THREE.Vector3[]>([
-    new THREE.Vector3(),
-    new THREE.Vector3(),
-    new THREE.Vector3(),
-  ])
+  // Simulated rope length: the glove center hangs at stringLength, so the rope
+  // itself ends at the attachment point, attachLocal.y higher
+  const ropeLength = stringLength - attachLocal.y
+
+  // Verlet chain — created once, laid out from the anchor to the starting glove.
+  // It's resized in place every frame (tuning, rope wind-up) and re-pinned to
+  // the anchor every step, so it never has to be rebuilt.
+  const [rope] = useState(() =>
+    createRope(anchorPos, initialGlovePos.clone().add(attachLocal), ROPE_NODES, ropeLength)
+  )
+
+  // Points fed to the tube: off-screen lead-in above the anchor, then every rope node.
+  // Starting the rope well above the anchor keeps the shadow one continuous curve.
+  const [originX, originY, originZ] = ropeOrigin
+  const ropePoints = useMemo(
+    () => [new THREE.Vector3(originX, originY, originZ), ...rope.positions],
+    [originX, originY, originZ, rope]
+  )
+
+  const ropeGeometry = useMemo(
+    () => createRopeGeometry(settings.stringThickness, ropePoints, ropeSegments),
+    [settings.stringThickness, ropePoints, ropeSegments]
+  )
 
   // Cleanup geometry on unmount
   useEffect(() => {
@@ -208,6 +349,16 @@ function DraggableGloveWithRope({
     }
   }, [gl])
 
+  // Rope contact with the other props' ropes and gloves
+  const contactCenter = useRef(new THREE.Vector3()) // Glove collision sphere for the other ropes (lib/ropeTangle)
+  useEffect(() => registerTangleMember(config.id, {
+    rope,
+    gloveCenter: contactCenter.current,
+    gloveRadius: settings.radius * GLOVE_CONTACT_RADIUS,
+    body: () => body,
+    isHeld: () => isDragging.current,
+  }), [config.id, rope, settings.radius, body])
+
   // Start gloves above the anchor point for drop-in animation
   const gloveStartPosition = useMemo((): [number, number, number] => [
     anchorPos.x,
@@ -216,69 +367,146 @@ function DraggableGloveWithRope({
   ], [anchorPos])
 
   // Smooth visual position - interpolates towards physics position
-  // Initialize at glove start position so rope is visible immediately
-  // We need to compute these values fresh each render to ensure they're current
-  const visualPosition = useRef<THREE.Vector3 | null>(null)
-  const visualRotation = useRef<THREE.Quaternion | null>(null)
+  // Initialize at the glove start pose (facing the user) so the rope is visible immediately
+  const visualPosition = useRef(new THREE.Vector3(gloveStartPosition[0], gloveStartPosition[1], gloveStartPosition[2]))
+  const visualRotation = useRef(new THREE.Quaternion().setFromEuler(new THREE.Euler(0, yRotation, 0)))
   const visualGroupRef = useRef<THREE.Group>(null)
   const frameCount = useRef(0)
   const isInitialized = useRef(false)
-  const settledTime = useRef(0) // Track time since drop completed
-
-  // Lazily initialize visual position/rotation on first access to ensure anchorPos is ready
-  if (!visualPosition.current) {
-    visualPosition.current = new THREE.Vector3(
-      anchorPos.x,
-      anchorPos.y + 3, // Match glove start position
-      anchorPos.z
+  const ropeAccumulator = useRef(0) // Unsimulated frame time carried to the next rope step
+
+  // Stereo pan for this glove's sounds — its on-screen x in normalized device coords
+  const getScreenPan = useCallback(() => {
+    if (!visualGroupRef.current) return 0
+    visualGroupRef.current.getWorldPosition(screenPos.current).project(camera)
+    return screenPos.current.x
+  }, [camera])
+
+  // Back to a dynamic body with this velocity (the worker damps the yaw spin
+  // so the gravity torque can steer the glove front-facing again)
+  const letGo = useCallback((velocity: Vec3) => {
+    isDragging.current = false
+    body.release(velocity)
+  }, [body])
+
+  // A tap-punch reached full extension — the worker has already handed the
+  // glove back to the rig. Project the fist to the page and hit whatever is
+  // registered there.
+  const landJab = useCallback(([x, y, z]: Vec3) => {
+    isDragging.current = false
+    jabbing.current = false
+
+    const group = physicsGroupRef.current
+    if (!group) return
+    const screen = screenPos.current.set(x, y, z).applyMatrix4(group.matrixWorld).project(camera)
+    const rect = gl.domElement.getBoundingClientRect()
+    const strength = reducedMotion ? REDUCED_IMPULSE_SCALE : 1
+    const hit = dispatchGloveHit(
+      config.id,
+      rect.left + (screen.x + 1) / 2 * rect.width,
+      rect.top + (1 - screen.y) / 2 * rect.height,
+      strength
     )
-  }
-  if (!visualRotation.current) {
-    // Initialize with the glove's starting rotation (facing user)
-    visualRotation.current = new THREE.Quaternion()
-    visualRotation.current.setFromEuler(new THREE.Euler(0, yRotation, 0))
-  }
+    if (hit) playThump(strength, screen.x)
+  }, [camera, gl, config.id, reducedMotion])
+
+  // What the worker reports: glove-on-glove impacts → leather thump (loudness
+  // from the contact force), the string catching the glove → creak, a fling or
+  // jab → whoosh, a cursor swipe batting it → the CustomCursor squash, the rope
+  // breaking → a full creak, the fade-out below and the analytics counter. A
+  // world reset (session record/replay) lays the rope out again like a rehang.
+  const handleWorldEvent = useCallback((event: GloveWorldEvent) => {
+    if (event.type === 'contact') playThump(event.force / CONTACT_FORCE_FULL, getScreenPan())
+    else if (event.type === 'bounce') playCreak(event.radialSpeed / ROPE_BOUNCE_FULL, getScreenPan())
+    else if (event.type === 'fling') playWhoosh(event.speed / FLING_SPEED_FULL, getScreenPan())
+    else if (event.type === 'jabLanded') landJab(event.to)
+    else if (event.type === 'knock') emitCursorImpact(event.force / CONTACT_FORCE_FULL)
+    else if (event.type === 'snap') {
+      snap.current = { at: performance.now(), rehung: false }
+      playCreak(1, getScreenPan())
+      if (!isReplayingSession()) recordRopeSnap(config.id)
+    } else if (event.type === 'reset') {
+      isDragging.current = false
+      jabbing.current = false
+      snap.current = { at: -Infinity, rehung: true }
+    }
+  }, [config.id, getScreenPan, landJab])
 
-  // Handle drop delay - start timer on mount
+  // Inspect mode (lib/gloveInspect): the camera frames the rendered glove, and
+  // its physics holds still until the inspection ends
   useEffect(() => {
-    if (effectiveDropDelay > 0) {
-      dropStartTime.current = performance.now()
+    if (!visualGroupRef.current) return
+    return registerInspectTarget(config.id, visualGroupRef.current)
+  }, [config.id])
+  useEffect(() => subscribeGloveInspect((id) => body.setPaused(id === config.id)), [body, config.id])
+  const inspect = useCallback(() => {
+    if (isReplayingSession() || body.state().snapped) return false
+    inspectGlove(config.id)
+    return getInspectedGlove() === config.id
+  }, [body, config.id])
+  const handleDoubleClick = useCallback((e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation()
+    if (pendingTap.current !== null) {
+      clearTimeout(pendingTap.current)
+      pendingTap.current = null
     }
-  }, [effectiveDropDelay])
+    if (isDragging.current && !jabbing.current) letGo([0, 0, 0])
+    inspect()
+  }, [inspect, letGo])
+  useEffect(() => () => {
+    if (pendingTap.current !== null) clearTimeout(pendingTap.current)
+  }, [])
+
+  // The body in the physics worker (workers/gloveWorld.worker.ts) — drop-in,
+  // soft string constraint, restoring force and bottom-heavy torque run there
+  // (see lib/gloveRig) once per fixed PHYSICS_TIMESTEP, so stiffness and settle
+  // time are identical on 60Hz and 120Hz displays. Retuning keeps its motion.
+  const colliders = useMemo(
+    () => config.colliders.map((recipe) => scaleCollider(recipe, settings.radius, mirror)),
+    [config.colliders, settings.radius, mirror]
+  )
+  useEffect(() => registerGloveBody({
+    id: config.id,
+    startPosition: gloveStartPosition,
+    yRotation,
+    anchor: [anchorPos.x, anchorPos.y, anchorPos.z],
+    stringLength,
+    springStrength: settings.springStrength,
+    breakingStrain: reducedMotion ? 0 : settings.breakingStrain,
+    dropDelay: effectiveDropDelay,
+    mirror,
+    mass: settings.mass,
+    restitution: settings.restitution,
+    friction: settings.friction,
+    linearDamping: reducedMotion ? Math.max(settings.linearDamping, 8) : settings.linearDamping,
+    angularDamping: reducedMotion ? 8 : 1.5,
+    colliders,
+  }, handleWorldEvent), [
+    config.id, gloveStartPosition, yRotation, anchorPos, stringLength, settings.springStrength, settings.breakingStrain, effectiveDropDelay,
+    mirror, settings.mass, settings.restitution, settings.friction, settings.linearDamping, reducedMotion, colliders, handleWorldEvent,
+  ])
 
-  // Soft string constraint + rope visual update
-  useFrame(() => {
+  // Visual smoothing + rope simulation
+  useFrame((_, rawDelta) => {
     const t = tempVec.current
+    const delta = Math.min(rawDelta, 0.05)
     frameCount.current++
-
-    // Check if drop delay has elapsed
-    if (!dropDelayElapsed.current && dropStartTime.current !== null) {
-      if (performance.now() - dropStartTime.current >= effectiveDropDelay) {
-        dropDelayElapsed.current = true
-      }
+    const rig = body.state()
+
+    // Body pose, interpolated between worker snapshots
+    body.pose(t.gloveCenter, tempQuat.current)
+    contactCenter.current.copy(t.gloveCenter)
+    if (bodyGroupRef.current) {
+      bodyGroupRef.current.position.copy(t.gloveCenter)
+      bodyGroupRef.current.quaternion.copy(tempQuat.current)
     }
 
-    // Update physics and visual position if physics body is ready
-    if (gloveRef.current && visualGroupRef.current) {
-      // Hold glove at start position until drop delay has elapsed
-      if (!dropDelayElapsed.current) {
-        gloveRef.current.setTranslation(
-          { x: gloveStartPosition[0], y: gloveStartPosition[1], z: gloveStartPosition[2] },
-          true
-        )
-        gloveRef.current.setLinvel({ x: 0, y: 0, z: 0 }, true)
-      }
-
-      const glove = gloveRef.current.translation()
-      const gloveRot = gloveRef.current.rotation()
-
-      t.gloveCenter.set(glove.x, glove.y, glove.z)
-      tempQuat.current.set(gloveRot.x, gloveRot.y, gloveRot.z, gloveRot.w)
+    if (visualGroupRef.current) {
 
       // Initialize visual position on first frame
       if (!isInitialized.current) {
-        visualPosition.current!.copy(t.gloveCenter)
-        visualRotation.current!.copy(tempQuat.current)
+        visualPosition.current.copy(t.gloveCenter)
+        visualRotation.current.copy(tempQuat.current)
         isInitialized.current = true
       }
 
@@ -287,18 +515,16 @@ function DraggableGloveWithRope({
       // Lower values = smoother but more lag, higher = more responsive but shows jumps
       // Note: This only affects visuals, not the underlying physics simulation
       // Use responsive lerp during initial drop + settling, then switch to smoother
-      if (hasDropped.current) {
-        settledTime.current += 1/60 // Approximate frame time
-      }
       // Stay responsive for 2 seconds after drop, then transition to smooth
-      const isSettled = settledTime.current > 2.0
-      const lerpFactor = isSettled ? 0.08 : 0.5
-      visualPosition.current!.lerp(t.gloveCenter, lerpFactor)
-      visualRotation.current!.slerp(tempQuat.current, lerpFactor)
+      const isSettled = rig.settledTime > 2.0 && !rig.snapped // A snapped glove falls too fast to smooth
+      // Factors are per 60Hz frame — rescale to the real frame delta
+      const lerpFactor = 1 - Math.pow(1 - (isSettled ? 0.08 : 0.5), delta * 60)
+      visualPosition.current.lerp(t.gloveCenter, lerpFactor)
+      visualRotation.current.slerp(tempQuat.current, lerpFactor)
 
       // Update the visual group position and rotation
-      visualGroupRef.current.position.copy(visualPosition.current!)
-      visualGroupRef.current.quaternion.copy(visualRotation.current!)
+      visualGroupRef.current.position.copy(visualPosition.current)
+      visualGroupRef.current.quaternion.copy(visualRotation.current)
 
       // Compose scroll-driven per-glove rotation on top of physics rotation,
       // and push glove outward to prevent clipping during the turn.
@@ -309,254 +535,187 @@ function DraggableGloveWithRope({
 
         // Spread apart — push outward proportional to rotation magnitude
         const spread = Math.abs(rot) / (Math.PI * 0.75) * 0.35 // up to 0.35 units at full rotation
-        const sign = isLeftGlove ? -1 : 1
-        visualGroupRef.current.position.x += sign * spread
-      }
-
-      t.toGlove.copy(t.gloveCenter).sub(anchorPos)
-      const distance = t.toGlove.length()
-
-      // Initial drop-in animation: apply initial velocity of -4 units/second
-      // Only trigger after drop delay has elapsed
-      if (dropDelayElapsed.current && !hasDropped.current && t.gloveCenter.y < anchorPos.y + 2.5) {
-        hasDropped.current = true
-        dragEndTime.current = performance.now() // Trigger post-drop settle toward front-facing
-        gloveRef.current.setLinvel({ x: 0, y: -4, z: 0 }, true)
-      }
-
-      // Apply string constraint when beyond string length
-      if (!isDragging.current && distance > settings.stringLength) {
-        t.direction.copy(t.toGlove).normalize()
-
-        // Hard constraint - snap back immediately to string length
-        t.constrainedPos.copy(t.direction).multiplyScalar(settings.stringLength).add(anchorPos)
-        gloveRef.current.setTranslation(
-          { x: t.constrainedPos.x, y: t.constrainedPos.y, z: t.constrainedPos.z },
-          true
-        )
-
-        // Convert outward velocity to inward bounce (spring effect)
-        const vel = gloveRef.current.linvel()
-        const radialSpeed = vel.x * t.direction.x + vel.y * t.direction.y + vel.z * t.direction.z
-        if (radialSpeed > 0) {
-          // Bounce factor - how much of the outward velocity becomes inward
-          const bounceFactor = 0.25
-          gloveRef.current.setLinvel(
-            {
-              x: vel.x - t.direction.x * radialSpeed * (1 + bounceFactor),
-              y: vel.y - t.direction.y * radialSpeed * (1 + bounceFactor),
-              z: vel.z - t.direction.z * radialSpeed * (1 + bounceFactor),
-            },
-            true
-          )
-
-          // Add angular velocity on bounce — random wobble on X/Z, but bias Y toward front-facing
-          const angVel = gloveRef.current.angvel()
-          const tiltStrength = radialSpeed * 0.5
-
-          // Compute yaw correction toward the target front-facing rotation
-          const currentRot = gloveRef.current.rotation()
-          const bounceEuler = new THREE.Euler().setFromQuaternion(
-            new THREE.Quaternion(currentRot.x, currentRot.y, currentRot.z, currentRot.w), 'YXZ'
-          )
-          const yawDiff = yRotation - bounceEuler.y
-          // Normalize yawDiff to [-PI, PI]
-          const normalizedYaw = ((yawDiff + Math.PI) % (2 * Math.PI)) - Math.PI
-
-          gloveRef.current.setAngvel(
-            {
-              x: angVel.x + (Math.random() - 0.5) * tiltStrength,
-              y: angVel.y + normalizedYaw * 0.3, // Bias toward front-facing instead of random
-              z: angVel.z + (Math.random() - 0.5) * tiltStrength,
-            },
-            true
-          )
-        }
+        visualGroupRef.current.position.x += mirror * spread
       }
+    }
 
-      // Apply restoring force to pull gloves back to natural hanging position
-      // This prevents gloves from unnaturally resting on top of each other
-      if (!isDragging.current) {
-        // Natural hanging position is directly below anchor at string length
-        t.naturalPos.set(anchorPos.x, anchorPos.y - settings.stringLength, anchorPos.z)
-        t.toNatural.copy(t.naturalPos).sub(t.gloveCenter)
-        const distanceFromNatural = t.toNatural.length()
-
-        // Apply a gentle restoring force when not at natural position
-        if (distanceFromNatural > 0.01) {
-          const restoreStrength = 5.0 // Balanced — snappy drop without distorting the fall path
-          t.restoreForce.copy(t.toNatural).normalize().multiplyScalar(restoreStrength * distanceFromNatural)
-
-          const vel = gloveRef.current.linvel()
-          gloveRef.current.setLinvel(
-            {
-              x: vel.x + t.restoreForce.x * 0.016, // Apply force scaled by frame time (~16ms)
-              y: vel.y + t.restoreForce.y * 0.016,
-              z: vel.z + t.restoreForce.z * 0.016,
-            },
-            true
-          )
-        }
-
-        // Apply torque to make bottom (knuckle/ball) hang lowest (heaviest part)
-        // This simulates bottom-heavy center of mass - like a tree air freshener
-        // Skip during initial drop so gloves fall straight, then kick in to orient front-facing
-        if (settledTime.current > 0.4) {
-          const currentRotation = gloveRef.current.rotation()
-          tempQuat.current.set(currentRotation.x, currentRotation.y, currentRotation.z, currentRotation.w)
-
-          // Local "gravity target" — mostly down, slightly toward glove's front (local Z+)
-          // This makes gravity pull the front face toward the camera as it settles
-          // Subtle bias so the initial drop looks straight, but gloves still settle front-facing
-          t.gloveDown.set(0, -1, 0.15).normalize().applyQuaternion(tempQuat.current)
-
-          // Calculate torque needed to align glove's bottom with world down
-          t.torqueAxis.crossVectors(t.gloveDown, t.worldDown)
-          const torqueMagnitude = Math.asin(Math.min(1, t.torqueAxis.length())) * 4.0 // Gentler for more swing
-
-          if (t.torqueAxis.length() > 0.01) {
-            t.torqueAxis.normalize().multiplyScalar(torqueMagnitude)
-            const angVel = gloveRef.current.angvel()
-            gloveRef.current.setAngvel(
-              {
-                x: angVel.x + t.torqueAxis.x * 0.08,
-                y: angVel.y + t.torqueAxis.y * 0.08,
-                z: angVel.z + t.torqueAxis.z * 0.08,
-              },
-              true
-            )
-          }
-        }
-      }
+    // Focus ring follows the visual glove (Billboard keeps it facing the camera)
+    if (focusRingRef.current && visualGroupRef.current) {
+      focusRingRef.current.position.copy(visualGroupRef.current.position)
     }
 
     // Update rope visual - runs even before physics is ready
-    if (!tubeRef.current || !visualPosition.current || !visualRotation.current) return
+    if (!tubeRef.current) return
 
     // Calculate attachment point at stitching area on upper front of glove
     // Use visualPosition and visualRotation (smoothed) to match the visual glove
     // The offset is in local space and needs to be rotated by the glove's orientation
-    const ropeXOffset = isLeftGlove ? settings.radius * 0.15 : -settings.radius * 0.15
-    const ropeYOffset = settings.radius * 1.7
-    const ropeZOffset = settings.radius * 0.3 // Slightly toward front where stitching is
-    t.attachOffset.set(ropeXOffset, ropeYOffset, ropeZOffset) // Local offset
-    t.attachOffset.applyQuaternion(visualRotation.current) // Rotate by glove orientation
+    t.attachOffset.copy(attachLocal).applyQuaternion(visualRotation.current) // Rotate by glove orientation
     t.gloveAttach.copy(visualPosition.current).add(t.attachOffset) // Add to position
 
-    // Rope sag — only when there's slack (rope shorter than string length)
-    const ropeDistance = anchorPos.distanceTo(t.gloveAttach)
-    const sag = Math.max(0, (settings.stringLength - ropeDistance) * 0.15)
-
-    t.mid.copy(anchorPos).lerp(t.gloveAttach, 0.5)
-    t.mid.y -= sag
-
-    // Build a smooth curve via quadratic Bezier (no CatmullRom inflection).
-    // Sample 3 points along the Bezier: start, middle, end.
-    // The control point is the sagged midpoint pushed further out so the
-    // Bezier's actual midpoint lands on t.mid (Bezier mid = avg of endpoints
-    // and control weighted, so control needs 2× the offset).
-    const pts = ropePoints.current
-    // Start the rope well above the anchor (off-screen) so the shadow is one
-    // continuous curve with no seam. The old separate shadow-extension cylinder
-    // created a visible kink where it met the curved rope.
-    pts[0].set(0, anchorPos.y + 4, 0)
-    // Push control point to 2× sag so the curve's geometric midpoint matches t.mid
-    pts[1].copy(anchorPos).lerp(t.gloveAttach, 0.5)
-    pts[1].y -= sag * 2
-    pts[2].copy(t.gloveAttach)
+    if (!rig.dropDelayElapsed) {
+      // Held above the anchor before the drop — keep the rope straight and still
+      resetRope(rope, anchorPos, t.gloveAttach)
+      ropeAccumulator.current = 0
+    } else {
+      // Weather wind — the glove's share is applied in the physics worker. Left
+      // out while a session records or replays, so the replay can reproduce the
+      // recorded motion exactly.
+      if (reducedMotion || getSessionMode() !== 'idle') t.wind.set(0, 0, 0)
+      else windAccelAt(getNycWeather(), performance.now() / 1000, t.wind)
+
+      // Verlet needs a constant step — run the rope on the same fixed step as Rapier
+      ropeAccumulator.current += delta
+      t.ropeTension.set(0, 0, 0)
+      // A wound rope takes up some of its own length
+      setRopeLength(rope, ropeLength * (1 - TWIST_SHORTENING * Math.abs(rig.twist) / MAX_ROPE_TWIST))
+      let steps = 0
+      while (ropeAccumulator.current >= PHYSICS_TIMESTEP && steps < MAX_ROPE_STEPS) {
+        stepRope(rope, anchorPos, t.gloveAttach, PHYSICS_TIMESTEP, {
+          gravity: settings.gravity,
+          damping: settings.ropeDamping,
+          endInverseMass: ROPE_END_INVERSE_MASS,
+          iterations: ROPE_ITERATIONS,
+          wind: t.ropeWind.copy(t.wind).multiplyScalar(ROPE_WIND_SCALE),
+          freeEnd: rig.snapped,
+        }, t.ropeCorrection)
+        collideRope(config.id)
+        t.ropeTension.add(t.ropeCorrection)
+        ropeAccumulator.current -= PHYSICS_TIMESTEP
+        steps++
+      }
+      if (steps === MAX_ROPE_STEPS) ropeAccumulator.current = 0 // Drop backlog after a hitch
+
+      // Rope tension and whip act back on the glove: the solver's pull on the
+      // end particle becomes a velocity change on the body (skipped while dragging,
+      // where the pointer owns the glove's motion, while it's paused for inspection,
+      // and during a session — it lands per rendered frame, off the recorded steps)
+      if (!isDragging.current && !rig.held && getSessionMode() === 'idle' && t.ropeTension.lengthSq() > 1e-10) {
+        const vel = body.linvel()
+        const invDt = 1 / PHYSICS_TIMESTEP
+        body.setLinvel(
+          {
+            x: vel.x + t.ropeTension.x * invDt,
+            y: vel.y + t.ropeTension.y * invDt,
+            z: vel.z + t.ropeTension.z * invDt,
+          },
+          true
+        )
+      }
+    }
 
     // Update geometry vertices in place (no new geometry allocation)
-    updateRopeGeometry(ropeGeometry, pts, settings.stringThickness)
+    updateRopeGeometry(ropeGeometry, ropePoints, settings.stringThickness, rig.twist)
   })
 
-  const handlePointerDown = useCallback((e: any) => {
-    e.stopPropagation()
-    if (!gloveRef.current || !physicsGroupRef.current) return
-
+  // Kinematic drag core for pointer input — while a session records, the
+  // worker logs the commands as it applies them
+  const beginDrag = useCallback(() => {
+    if (body.state().snapped || getInspectedGlove() !== null) return false
     isDragging.current = true
+    jabbing.current = false
     velocityHistory.current = []
+    const pos = body.translation()
+    lastPosition.current.set(pos.x, pos.y, pos.z)
+    lastMoveTime.current = performance.now()
+    body.grab()
+    return true
+  }, [body])
 
-    // Suppress native scroll while dragging a glove (non-passive to allow preventDefault)
-    touchMoveBlocker.current = (te: TouchEvent) => te.preventDefault()
-    gl.domElement.addEventListener('touchmove', touchMoveBlocker.current, { passive: false })
+  const dragTo = useCallback((target: THREE.Vector3) => {
+    if (!isDragging.current || jabbing.current) return
+
+    // Constrain to string length from anchor
+    const toGlove = target.clone().sub(anchorPos)
+    const newPos = toGlove.length() > stringLength
+      ? anchorPos.clone().add(toGlove.setLength(stringLength))
+      : target
+
+    // Velocity from real sample timestamps — pointer events arrive at the display
+    // rate, so a fixed ×60 would double fling speed on 120Hz screens
+    const now = performance.now()
+    const elapsed = Math.max(now - lastMoveTime.current, 1) / 1000
+    const velocity = newPos.clone().sub(lastPosition.current).divideScalar(elapsed)
+    velocityHistory.current.push(velocity)
+    if (velocityHistory.current.length > 5) velocityHistory.current.shift()
+    lastPosition.current.copy(newPos)
+    lastMoveTime.current = now
+
+    body.moveTo([newPos.x, newPos.y, newPos.z])
+  }, [body, anchorPos, stringLength])
+
+  const endDrag = useCallback((velocity: Vec3) => {
+    if (!isDragging.current || jabbing.current) return
+    letGo(velocity)
+  }, [letGo])
+
+  // Tap-punch: jab the held glove toward `target` (local physics space). The
+  // direction runs from the glove center to the target, so tapping its edge
+  // throws it that way; a tap near the center punches at the viewer.
+  const punchAt = useCallback((target: Vec3) => {
+    const group = physicsGroupRef.current
+    if (!isDragging.current || !group || jabbing.current) return
+
+    const pos = body.translation()
+    const from = new THREE.Vector3(pos.x, pos.y, pos.z)
+    const direction = new THREE.Vector3(...target).sub(from)
+    if (direction.length() < JAB_DEAD_ZONE) {
+      group.updateWorldMatrix(true, false)
+      inverseParentMatrix.current.copy(group.matrixWorld).invert()
+      camera.getWorldPosition(direction).applyMatrix4(inverseParentMatrix.current).sub(from)
+    }
+    direction.setLength(JAB_REACH * (reducedMotion ? REDUCED_IMPULSE_SCALE : 1))
 
-    // Cache inverse of parent world matrix — converts world space → local physics space.
-    // This accounts for ScrollRotationGroup, ScaleGroup, HorizontalTranslateGroup etc.
-    physicsGroupRef.current.updateWorldMatrix(true, false)
-    inverseParentMatrix.current.copy(physicsGroupRef.current.matrixWorld).invert()
+    // Along the rope: the fist can't travel past the end of the string
+    const to = from.clone().add(direction)
+    const toGlove = to.clone().sub(anchorPos)
+    if (toGlove.length() > stringLength) to.copy(anchorPos).add(toGlove.setLength(stringLength))
 
-    // Glove position is in local physics space
-    const pos = gloveRef.current.translation()
-    const gloveLocalPos = new THREE.Vector3(pos.x, pos.y, pos.z)
-    lastPosition.current.copy(gloveLocalPos)
+    jabbing.current = true
+    body.punch([from.x, from.y, from.z], [to.x, to.y, to.z])
+  }, [body, camera, anchorPos, stringLength, reducedMotion])
 
-    // Convert local glove position to world space for the drag plane
-    const gloveWorldPos = gloveLocalPos.clone().applyMatrix4(physicsGroupRef.current.matrixWorld)
+  const handlePointerDown = useCallback((e: any) => {
+    e.stopPropagation()
+    if (!physicsGroupRef.current || isReplayingSession()) return
+
+    // A press while the last tap still waits to punch makes it a double-click
+    secondTap.current = pendingTap.current !== null
+    if (pendingTap.current !== null) {
+      clearTimeout(pendingTap.current)
+      pendingTap.current = null
+    }
+    if (!beginDrag()) return
 
-    const cameraDir = new THREE.Vector3()
-    camera.getWorldDirection(cameraDir)
-    dragPlane.current.setFromNormalAndCoplanarPoint(cameraDir.negate(), gloveWorldPos)
+    // Suppress native scroll while dragging a glove (non-passive to allow preventDefault)
+    touchMoveBlocker.current = (te: TouchEvent) => te.preventDefault()
+    gl.domElement.addEventListener('touchmove', touchMoveBlocker.current, { passive: false })
 
-    // Ray is in world space — intersect with world-space plane, then convert to local
-    const ray = e.ray as THREE.Ray
-    ray.intersectPlane(dragPlane.current, intersection.current)
-    const localIntersection = intersection.current.clone().applyMatrix4(inverseParentMatrix.current)
+    // Grab point on the drag plane through the glove (a miss grabs dead center)
+    const gloveLocalPos = lastPosition.current.clone()
+    const localIntersection = gloveLocalPos.clone()
+    projectOntoDragPlane(e.ray as THREE.Ray, camera, physicsGroupRef.current, gloveLocalPos, localIntersection)
     offset.current.subVectors(gloveLocalPos, localIntersection)
+    tapTarget.current.copy(localIntersection)
+    tapStart.current = { time: performance.now(), x: e.clientX, y: e.clientY }
 
-    gloveRef.current.setBodyType(2, true)
-    ;(gl.domElement as HTMLElement).style.cursor = 'none'
-    gl.domElement.setAttribute('data-cursor', 'drag')
+    setCanvasCursor(gl.domElement, 'drag')
     ;(e.target as HTMLElement).setPointerCapture(e.pointerId)
-  }, [camera, gl])
+  }, [camera, gl, beginDrag])
 
   const handlePointerMove = useCallback((e: any) => {
-    if (!isDragging.current || !gloveRef.current || !physicsGroupRef.current) return
-
-    // Update matrices each frame — parent may rotate/translate during drag (user scrolling)
-    physicsGroupRef.current.updateWorldMatrix(true, false)
-    inverseParentMatrix.current.copy(physicsGroupRef.current.matrixWorld).invert()
-
-    // Update drag plane to follow the glove's current world position
-    // (parent transforms shift where "local origin" maps to in world space)
-    const pos = gloveRef.current.translation()
-    const gloveWorldPos = new THREE.Vector3(pos.x, pos.y, pos.z)
-      .applyMatrix4(physicsGroupRef.current.matrixWorld)
-    const cameraDir = new THREE.Vector3()
-    camera.getWorldDirection(cameraDir)
-    dragPlane.current.setFromNormalAndCoplanarPoint(cameraDir.negate(), gloveWorldPos)
-
-    const ray = e.ray as THREE.Ray
-    if (!ray.intersectPlane(dragPlane.current, intersection.current)) return
+    if (!isDragging.current || !physicsGroupRef.current || isReplayingSession()) return
 
-    // Convert world-space intersection to local physics space
-    const localIntersection = intersection.current.clone().applyMatrix4(inverseParentMatrix.current)
-    let newPos = localIntersection.add(offset.current)
-
-    // Constrain to string length from anchor
-    const toGlove = newPos.clone().sub(anchorPos)
-    const distance = toGlove.length()
-
-    if (distance > settings.stringLength) {
-      toGlove.normalize().multiplyScalar(settings.stringLength)
-      newPos = anchorPos.clone().add(toGlove)
-    }
-
-    const velocity = newPos.clone().sub(lastPosition.current).multiplyScalar(60)
-    velocityHistory.current.push(velocity.clone())
-    if (velocityHistory.current.length > 5) velocityHistory.current.shift()
-    lastPosition.current.copy(newPos)
-
-    gloveRef.current.setNextKinematicTranslation({
-      x: newPos.x,
-      y: newPos.y,
-      z: newPos.z,
-    })
-  }, [anchorPos, settings.stringLength, camera])
+    // The drag plane follows the glove, and the parent may rotate/translate
+    // mid-drag (user scrolling)
+    const pos = body.translation()
+    const localIntersection = new THREE.Vector3()
+    if (!projectOntoDragPlane(e.ray as THREE.Ray, camera, physicsGroupRef.current, new THREE.Vector3(pos.x, pos.y, pos.z), localIntersection)) return
+    dragTo(localIntersection.add(offset.current))
+  }, [body, camera, dragTo])
 
   const handlePointerUp = useCallback((e: any) => {
-    if (!isDragging.current || !gloveRef.current) return
-
-    isDragging.current = false
+    if (!isDragging.current || isReplayingSession()) return
 
     // Restore native scroll
     if (touchMoveBlocker.current) {
@@ -564,102 +723,315 @@ function DraggableGloveWithRope({
       touchMoveBlocker.current = null
     }
 
-    ;(gl.domElement as HTMLElement).style.cursor = 'none'
-    gl.domElement.setAttribute('data-cursor', 'grab')
+    setCanvasCursor(gl.domElement, 'grab')
     ;(e.target as HTMLElement).releasePointerCapture(e.pointerId)
 
+    // Down and up in place → punch at the tapped point instead of a (zero)
+    // fling, once the double-click window has passed with the glove still held.
+    // The second tap of a double-click just lets go — onDoubleClick inspects.
+    const tap = tapStart.current
+    if (performance.now() - tap.time < TAP_MAX_DURATION && Math.hypot(e.clientX - tap.x, e.clientY - tap.y) < TAP_MAX_TRAVEL) {
+      if (secondTap.current) {
+        letGo([0, 0, 0])
+        return
+      }
+      const { x, y, z } = tapTarget.current
+      pendingTap.current = setTimeout(() => {
+        pendingTap.current = null
+        punchAt([x, y, z])
+      }, TAP_DOUBLE_WINDOW)
+      return
+    }
+
     const avgVelocity = new THREE.Vector3()
     if (velocityHistory.current.length > 0) {
       velocityHistory.current.forEach((v) => avgVelocity.add(v))
       avgVelocity.divideScalar(velocityHistory.current.length)
     }
+    avgVelocity.multiplyScalar(0.5)
+    endDrag([avgVelocity.x, avgVelocity.y, avgVelocity.z])
+  }, [gl, endDrag, letGo, punchAt])
+
+  // Keyboard / assistive-tech control. The impulse is given in camera space
+  // (x right, y up, z toward the viewer) and rotated into this group's physics
+  // space, so "right" means screen-right whatever the scroll rotation is. Sent
+  // as body.impulse, like the shake below, so session recordings carry it.
+  // False when the glove can't take it: mid drop-in, held, paused for
+  // inspection, on a snapped rope or during a replay.
+  const applyScreenImpulse = useCallback((x: number, y: number, z: number, spin: number) => {
+    const group = physicsGroupRef.current
+    const { hasDropped, held, snapped } = body.state()
+    if (!group || isDragging.current || isReplayingSession() || !hasDropped || held || snapped) return false
+
+    const scale = reducedMotion ? REDUCED_IMPULSE_SCALE : 1
+    const impulse = keyboardImpulse.current.set(x, y, z).applyQuaternion(camera.getWorldQuaternion(keyboardQuat.current))
+    impulse.applyQuaternion(group.getWorldQuaternion(keyboardQuat.current).invert()).multiplyScalar(scale)
+
+    body.impulse([impulse.x, impulse.y, impulse.z], [reducedMotion ? 0 : -spin, 0, 0])
+    return true
+  }, [body, camera, reducedMotion])
+
+  // Phone shake — a jolt in a seeded-random direction, mostly sideways and up
+  useEffect(() => subscribeShake((strength) => {
+    if (isDragging.current || !body.state().hasDropped) return
+    const speed = SHAKE_SPEED * strength * (reducedMotion ? REDUCED_IMPULSE_SCALE : 1)
+    const linear: Vec3 = [(random() - 0.5) * 2 * speed, random() * speed * 0.6, (random() - 0.5) * speed * 0.6]
+    const angular: Vec3 = reducedMotion
+      ? [0, 0, 0]
+      : [(random() - 0.5) * SHAKE_SPIN * strength, 0, (random() - 0.5) * SHAKE_SPIN * strength]
+    body.impulse(linear, angular)
+  }), [body, random, reducedMotion])
+
+  useEffect(() => registerGloveController(config.id, {
+    nudge: (direction) => {
+      const [x, y] = NUDGE_VECTORS[direction]
+      return applyScreenImpulse(x * KEYBOARD_NUDGE_SPEED, y * KEYBOARD_NUDGE_SPEED, 0, 0)
+    },
+    punch: () => {
+      if (!applyScreenImpulse(0, KEYBOARD_PUNCH_SPEED * 0.15, KEYBOARD_PUNCH_SPEED, KEYBOARD_PUNCH_SPIN)) return false
+      playWhoosh(KEYBOARD_PUNCH_SPEED / FLING_SPEED_FULL, getScreenPan())
+      return true
+    },
+    setFocused,
+    inspect,
+    reseed: (seed) => {
+      rng.current = mulberry32(seedFromString(config.id) ^ seed)
+      body.reseed(seed)
+    },
+  }), [body, config.id, applyScreenImpulse, getScreenPan, inspect])
+
+  // Stitched monogram canvas — one per glove, redrawn when the text or cuff changes
+  const monogramTexture = useMemo(() => createMonogramTexture(), [])
+  useEffect(() => () => monogramTexture.dispose(), [monogramTexture])
+
+  // Clone the model once per theme — materials are cloned so tints never leak
+  // into the shared GLTF cache
+  const gloveObject = useMemo(() => {
+    const cloned = gloveModel.clone()
+    const tintMeshes: THREE.Mesh[] = []
+    // Enable shadows on all meshes in the model and optionally desaturate
+    cloned.traverse((child) => {
+      if ((child as THREE.Mesh).isMesh) {
+        const mesh = child as THREE.Mesh
+        mesh.castShadow = true
+        mesh.receiveShadow = true
+
+        // Apply color adjustments based on theme
+        const isInvertedTheme = themeMode === 'inverted'
+        const isDarkTheme = themeMode === 'dark'
+        const isDarkestTheme = themeMode === 'darkInverted'
+
+        if (mesh.material) {
+          const mat = mesh.material as THREE.MeshStandardMaterial
+          // Clone the material to avoid affecting the original (settings tint it below)
+          const newMat = mat.clone()
+
+          if (isDarkestTheme) {
+            // Full B&W desaturation for darkest theme
+            if (newMat.color) {
+              const r = newMat.color.r
+              const g = newMat.color.g
+              const b = newMat.color.b
+              const gray = r * 0.299 + g * 0.587 + b * 0.114
+              newMat.color.setRGB(gray, gray, gray)
+            }
 
-    gloveRef.current.setBodyType(0, true)
-    gloveRef.current.setLinvel(
-      { x: avgVelocity.x * 0.5, y: avgVelocity.y * 0.5, z: avgVelocity.z * 0.5 },
-      true
-    )
+            // Inject grayscale shader for textures
+            newMat.onBeforeCompile = (shader) => {
+              shader.fragmentShader = shader.fragmentShader.replace(
+                '#include <map_fragment>',
+                `
+                #include <map_fragment>
+                // Convert to grayscale using luminance formula
+                float gray = dot(diffuseColor.rgb, vec3(0.299, 0.587, 0.114));
+                // Medium contrast B&W
+                float contrast = 1.8;
+                float brightness = 0.12;
+                gray = (gray - 0.5) * contrast + 0.5 + brightness;
+                // Moderate curve for balanced look
+                gray = smoothstep(0.1, 0.9, gray);
+                gray = clamp(gray, 0.0, 1.0);
+                // Pure B&W output
+                diffuseColor.rgb = vec3(gray);
+                `
+              )
+            }
+          } else if (isInvertedTheme) {
+            // Moderate darkening for inverted theme
+            if (newMat.color) {
+              const darkFactor = 0.90
+              newMat.color.setRGB(
+                newMat.color.r * darkFactor,
+                newMat.color.g * darkFactor,
+                newMat.color.b * darkFactor
+              )
+            }
 
-    // On release, heavily dampen yaw spin so gravity torque can steer front-facing
-    const angVel = gloveRef.current.angvel()
-    gloveRef.current.setAngvel(
-      {
-        x: angVel.x,
-        y: angVel.y * 0.2, // Kill most yaw spin from the fling
-        z: angVel.z,
-      },
-      true
-    )
+            // Inject shader to darken textures while keeping color
+            newMat.onBeforeCompile = (shader) => {
+              shader.fragmentShader = shader.fragmentShader.replace(
+                '#include <map_fragment>',
+                `
+                #include <map_fragment>
+                // Darken while preserving color
+                diffuseColor.rgb *= 0.90;
+                `
+              )
+            }
+          } else if (isDarkTheme) {
+            // Slight darkening for dark theme
+            if (newMat.color) {
+              const darkFactor = 0.95
+              newMat.color.setRGB(
+                newMat.color.r * darkFactor,
+                newMat.color.g * darkFactor,
+                newMat.color.b * darkFactor
+              )
+            }
 
-    dragEndTime.current = performance.now()
-  }, [gl])
+            // Inject shader to darken textures while keeping color
+            newMat.onBeforeCompile = (shader) => {
+              shader.fragmentShader = shader.fragmentShader.replace(
+                '#include <map_fragment>',
+                `
+                #include <map_fragment>
+                // Darken while preserving color
+                diffuseColor.rgb *= 0.95;
+                `
+              )
+            }
+          }
 
-  return (
-    <group ref={physicsGroupRef}>
-      {/* Physics body - invisible, only colliders */}
-      <RigidBody
-        ref={gloveRef}
-        position={gloveStartPosition}
-        rotation={[0, yRotation, 0]}
-        colliders={false}
-        mass={settings.mass}
-        restitution={Math.max(settings.restitution, 0.6)}
-        friction={Math.min(settings.friction, 0.1)}
-        linearDamping={reducedMotion ? Math.max(settings.linearDamping, 8) : settings.linearDamping}
-        angularDamping={reducedMotion ? 8 : 1.5}
-      >
-        {/* Collider for main glove body (rectangular box) */}
-        <CuboidCollider
-          args={[settings.radius, settings.radius * 1.5, settings.radius]}
-          position={[0, 0, 0]}
-        />
+          // Remember the theme-adjusted color so the Settings tint composes on top
+          newMat.userData.baseColor = newMat.color.clone()
 
-        {/* Collider for knuckle area (sphere, centered Z to avoid back-facing bias) */}
-        <BallCollider
-          args={[settings.radius * 0.9]}
-          position={[0, -settings.radius * 0.5, 0]}
-        />
+          // Force shader recompilation
+          newMat.needsUpdate = true
+          mesh.material = newMat
+          if (!config.tintMeshes || config.tintMeshes.includes(mesh.name)) tintMeshes.push(mesh)
+        }
+      }
+    })
 
-        {/* Collider for thumb - mirrored for left glove, centered Z */}
-        <CuboidCollider
-          args={[settings.radius * 0.4, settings.radius * 0.6, settings.radius * 0.4]}
-          position={[
-            isLeftGlove ? -settings.radius * 1.2 : settings.radius * 1.2,
-            -settings.radius * 0.3,
-            0
-          ]}
-          rotation={[0, 0, isLeftGlove ? -0.3 : 0.3]}
-        />
+    // Visitor customization (lib/gloveMaterial): recolor the leather in place
+    // and stitch the monogram onto the cuff of the main leather mesh
+    tintMeshes.forEach((mesh) => {
+      (mesh.material as THREE.Material).userData.recolor = installGloveRecolor(mesh, cloned, `glove-${themeMode}`)
+    })
+    const decal = tintMeshes[0] && createMonogramDecal(tintMeshes[0], cloned, monogramTexture)
+    if (decal) cloned.add(decal)
+    return cloned
+  }, [gloveModel, themeMode, config.tintMeshes, monogramTexture])
 
-        {/* Collider for cuff (white band at wrist) */}
-        <CylinderCollider
-          args={[settings.radius * 0.4, settings.radius * 1.15]}
-          position={[0, settings.radius * 1.3, 0]}
-        />
+  // Colorway and monogram — uniforms and canvas update in place, no re-clone
+  useEffect(() => {
+    drawMonogram(monogramTexture, customization.monogram, customization.cuff)
+    gloveObject.traverse((child) => {
+      const mesh = child as THREE.Mesh
+      if (!mesh.isMesh) return
+      if (mesh.userData.monogram) mesh.visible = customization.monogram !== ''
+      const recolor = (mesh.material as THREE.Material).userData.recolor as GloveRecolorUniforms | undefined
+      if (recolor) updateGloveRecolor(recolor, customization)
+    })
+  }, [gloveObject, monogramTexture, customization])
+
+  // Cold weather frosts the leather (uniform only — no recompile)
+  useEffect(() => {
+    gloveObject.traverse((child) => {
+      const recolor = ((child as THREE.Mesh).material as THREE.Material | undefined)?.userData?.recolor as GloveRecolorUniforms | undefined
+      if (recolor) updateGloveFrost(recolor, frost)
+    })
+  }, [gloveObject, frost])
+
+  // Material finish from Settings — applied in place so tuning never re-clones.
+  // Color tints only the manifest's tint meshes (leather, not laces or eyelets);
+  // metalness/roughness scale the baked maps (1 = as authored). The visitor's
+  // finish (matte / satin / patent) scales the leather on top.
+  useEffect(() => {
+    const tint = new THREE.Color(settings.color)
+    const finish = GLOVE_FINISHES[customization.finish]
+    gloveObject.traverse((child) => {
+      const mesh = child as THREE.Mesh
+      if (!mesh.isMesh || mesh.userData.monogram) return
+      const mat = mesh.material as THREE.MeshStandardMaterial
+      const isLeather = !config.tintMeshes || config.tintMeshes.includes(mesh.name)
+      if (isLeather) {
+        mat.color.copy(mat.userData.baseColor).multiply(tint)
+      }
+      mat.metalness = settings.metalness
+      mat.roughness = settings.roughness * (isLeather ? finish.roughness : 1)
+      mat.envMapIntensity = settings.envMapIntensity * (isLeather ? finish.envMapIntensity : 1)
+    })
+  }, [gloveObject, config.tintMeshes, settings.color, settings.metalness, settings.roughness, settings.envMapIntensity, customization.finish])
+
+  // Rope snap: the glove tumbles and bounces for SNAP_FADE_DELAY, fades out,
+  // then the worker hangs a fresh one for the usual dropDelay drop-in. It shows
+  // again once a snapshot has the new glove, placed straight at its start pose
+  // (no visual lerp up from the floor) with the rope laid out behind it.
+  const gloveMaterials = useMemo(() => {
+    const materials: THREE.Material[] = []
+    gloveObject.traverse((child) => {
+      const mesh = child as THREE.Mesh
+      if (mesh.isMesh) materials.push(...[mesh.material].flat())
+    })
+    return materials
+  }, [gloveObject])
+  useFrame(() => {
+    const snapped = snap.current
+    const visual = visualGroupRef.current
+    if (!snapped || !visual) return
+
+    const setOpacity = (opacity: number) => {
+      gloveMaterials.forEach((mat) => {
+        mat.transparent = opacity < 1
+        mat.opacity = opacity
+      })
+      visual.visible = opacity > 0
+    }
+
+    if (snapped.rehung) {
+      if (body.state().snapped) return
+      snap.current = null
+      setOpacity(1)
+      isInitialized.current = false
+      resetRope(rope, anchorPos, tempVec.current.gloveAttach.copy(initialGlovePos).add(attachLocal))
+      return
+    }
 
+    const elapsed = (performance.now() - snapped.at) / 1000
+    setOpacity(1 - THREE.MathUtils.clamp((elapsed - SNAP_FADE_DELAY) / SNAP_FADE_DURATION, 0, 1))
+    if (elapsed >= SNAP_FADE_DELAY + SNAP_FADE_DURATION) {
+      snapped.rehung = true
+      body.rehang()
+    }
+  })
+
+  return (
+    <group ref={physicsGroupRef}>
+      {/* Physics body pose (simulated in the worker) - carries only the hit box */}
+      <group ref={bodyGroupRef} position={gloveStartPosition} rotation={[0, yRotation, 0]}>
         {/* Invisible interaction mesh for pointer events */}
         <mesh
           visible={false}
           onPointerDown={handlePointerDown}
           onPointerMove={handlePointerMove}
           onPointerUp={handlePointerUp}
+          onDoubleClick={handleDoubleClick}
           onPointerOver={() => {
             if (!isDragging.current) {
-              ;(gl.domElement as HTMLElement).style.cursor = 'none'
-              gl.domElement.setAttribute('data-cursor', 'grab')
+              setCanvasCursor(gl.domElement, 'grab')
             }
           }}
           onPointerOut={() => {
             if (!isDragging.current) {
-              ;(gl.domElement as HTMLElement).style.cursor = 'default'
-              gl.domElement.removeAttribute('data-cursor')
+              setCanvasCursor(gl.domElement, null)
             }
           }}
         >
           <boxGeometry args={[settings.radius * 3, settings.radius * 4, settings.radius * 3]} />
           <meshBasicMaterial transparent opacity={0} />
         </mesh>
-      </RigidBody>
+      </group>
 
       {/* Visual glove - smoothly interpolated, separate from physics */}
       <group
@@ -668,134 +1040,124 @@ function DraggableGloveWithRope({
         rotation={[0, yRotation, 0]}
       >
         <primitive
-          object={useMemo(() => {
-            const cloned = gloveModel.clone()
-            // Enable shadows on all meshes in the model and optionally desaturate
-            cloned.traverse((child) => {
-              if ((child as THREE.Mesh).isMesh) {
-                const mesh = child as THREE.Mesh
-                mesh.castShadow = true
-                mesh.receiveShadow = true
-
-                // Apply color adjustments based on theme
-                const isInvertedTheme = themeMode === 'inverted'
-                const isDarkTheme = themeMode === 'dark'
-                const isDarkestTheme = themeMode === 'darkInverted'
-
-                if ((isInvertedTheme || isDarkTheme || isDarkestTheme) && mesh.material) {
-                  const mat = mesh.material as THREE.MeshStandardMaterial
-                  // Clone the material to avoid affecting the original
-                  const newMat = mat.clone()
-
-                  if (isDarkestTheme) {
-                    // Full B&W desaturation for darkest theme
-                    if (newMat.color) {
-                      const r = newMat.color.r
-                      const g = newMat.color.g
-                      const b = newMat.color.b
-                      const gray = r * 0.299 + g * 0.587 + b * 0.114
-                      newMat.color.setRGB(gray, gray, gray)
-                    }
-
-                    // Inject grayscale shader for textures
-                    newMat.onBeforeCompile = (shader) => {
-                      shader.fragmentShader = shader.fragmentShader.replace(
-                        '#include <map_fragment>',
-                        `
-                        #include <map_fragment>
-                        // Convert to grayscale using luminance formula
-                        float gray = dot(diffuseColor.rgb, vec3(0.299, 0.587, 0.114));
-                        // Medium contrast B&W
-                        float contrast = 1.8;
-                        float brightness = 0.12;
-                        gray = (gray - 0.5) * contrast + 0.5 + brightness;
-                        // Moderate curve for balanced look
-                        gray = smoothstep(0.1, 0.9, gray);
-                        gray = clamp(gray, 0.0, 1.0);
-                        // Pure B&W output
-                        diffuseColor.rgb = vec3(gray);
-                        `
-                      )
-                    }
-                  } else if (isInvertedTheme) {
-                    // Moderate darkening for inverted theme
-                    if (newMat.color) {
-                      const darkFactor = 0.90
-                      newMat.color.setRGB(
-                        newMat.color.r * darkFactor,
-                        newMat.color.g * darkFactor,
-                        newMat.color.b * darkFactor
-                      )
-                    }
-
-                    // Inject shader to darken textures while keeping color
-                    newMat.onBeforeCompile = (shader) => {
-                      shader.fragmentShader = shader.fragmentShader.replace(
-                        '#include <map_fragment>',
-                        `
-                        #include <map_fragment>
-                        // Darken while preserving color
-                        diffuseColor.rgb *= 0.90;
-                        `
-                      )
-                    }
-                  } else if (isDarkTheme) {
-                    // Slight darkening for dark theme
-                    if (newMat.color) {
-                      const darkFactor = 0.95
-                      newMat.color.setRGB(
-                        newMat.color.r * darkFactor,
-                        newMat.color.g * darkFactor,
-                        newMat.color.b * darkFactor
-                      )
-                    }
-
-                    // Inject shader to darken textures while keeping color
-                    newMat.onBeforeCompile = (shader) => {
-                      shader.fragmentShader = shader.fragmentShader.replace(
-                        '#include <map_fragment>',
-                        `
-                        #include <map_fragment>
-                        // Darken while preserving color
-                        diffuseColor.rgb *= 0.95;
-                        `
-                      )
-                    }
-                  }
-
-                  // Force shader recompilation
-                  newMat.needsUpdate = true
-                  mesh.material = newMat
-                }
-              }
-            })
-            return cloned
-          }, [gloveModel, themeMode])}
-          scale={[
-            settings.radius * 0.75,
-            settings.radius * 0.75,
-            settings.radius * 0.75
-          ]}
-          position={[0, settings.radius * 1.5, 0]}
+          object={gloveObject}
+          scale={config.modelScale * settings.radius}
+          position={scaleRecipe(config.modelOffset, settings.radius, mirror)}
         />
       </group>
 
+      {/* Keyboard focus ring - drawn over everything so it's never hidden by the glove */}
+      <group ref={focusRingRef} visible={focused}>
+        <Billboard>
+          <mesh renderOrder={10}>
+            <ringGeometry args={[settings.radius * 2.2, settings.radius * 2.32, 64]} />
+            <meshBasicMaterial color={colorTokens.blueUi} transparent opacity={0.9} depthTest={false} />
+          </mesh>
+        </Billboard>
+      </group>
+
       {/* Rope visual - uses memoized geometry that's updated in place */}
       <mesh ref={tubeRef} geometry={ropeGeometry} frustumCulled={false} castShadow>
-        <meshStandardMaterial color="#2a2a2a" roughness={0.4} metalness={0.1} />
+        <meshStandardMaterial color={settings.stringColor} roughness={0.4} metalness={0.1} />
       </mesh>
 
     </group>
   )
 }
 
-// Preload the glove models (with Draco decoder for compressed meshes)
-useGLTF.preload(leftGloveModelUrl, true)
-useGLTF.preload(rightGloveModelUrl, true)
+// The pointer as an invisible ball in the gloves' physics world: placed each
+// frame on the drag plane through the gloves' midpoint, and solid only while
+// the pointer sweeps faster than Settings.cursorSensitivity asks for, so a fast
+// swipe bats a glove (the worker's kinematic body hands over its velocity) and
+// ordinary mouse movement leaves the gloves alone. Off while a glove is held
+// or inspected, while a session records or replays (swipes aren't in the log)
+// and under reduced motion; fine pointers only — a touch swipe is a scroll,
+// not a swat.
+function CursorCollider({ objects, sensitivity }: { objects: HangingObjectConfig[]; sensitivity: number }) {
+  const groupRef = useRef<THREE.Group>(null)
+  const raycaster = useRef(new THREE.Raycaster())
+  const lastPointer = useRef<THREE.Vector2 | null>(null)
+  const scratch = useRef({ midpoint: new THREE.Vector3(), position: new THREE.Vector3() })
+  const bodies = useMemo(() => objects.map((object) => getGloveBody(object.id)), [objects])
+  const enabled = useMemo(
+    () => !prefersReducedMotion() && typeof window !== 'undefined' && window.matchMedia('(pointer: fine)').matches,
+    []
+  )
+
+  useFrame((state, delta) => {
+    const group = groupRef.current
+    if (!enabled || !group || bodies.length === 0) return
+    const { midpoint, position } = scratch.current
+
+    midpoint.set(0, 0, 0)
+    bodies.forEach((body) => {
+      const p = body.translation()
+      midpoint.x += p.x
+      midpoint.y += p.y
+      midpoint.z += p.z
+    })
+    midpoint.divideScalar(bodies.length)
+    raycaster.current.setFromCamera(state.pointer, state.camera)
+    if (!projectOntoDragPlane(raycaster.current.ray, state.camera, group, midpoint, position)) return
+
+    // Pointer speed on screen, not in the scene — scrolling moves the gloves
+    // under a resting cursor, and that shouldn't count as a swipe
+    const last = lastPointer.current ?? (lastPointer.current = state.pointer.clone())
+    const speed = delta > 0
+      ? Math.hypot((state.pointer.x - last.x) * state.size.width, (state.pointer.y - last.y) * state.size.height) / 2 / delta
+      : 0
+    last.copy(state.pointer)
+
+    const minSpeed = THREE.MathUtils.lerp(CURSOR_SWIPE_SPEED_LOW, CURSOR_SWIPE_SPEED_HIGH, sensitivity)
+    const solid = sensitivity > 0 && speed >= minSpeed &&
+      getSessionMode() === 'idle' && getInspectedGlove() === null && !bodies.some((body) => body.state().held)
+    setGloveWorldCursor([position.x, position.y, position.z], solid)
+  })
+
+  return <group ref={groupRef} />
+}
+
+const _canvasBottom = new THREE.Vector2(0, -1)
+const _origin = new THREE.Vector3()
+
+// Tells the worker where the bottom edge of the canvas is, in physics space at
+// the gloves' depth — the floor snapped gloves bounce on. Follows resizes and
+// the scroll-driven transforms above the gloves.
+function CanvasFloor() {
+  const groupRef = useRef<THREE.Group>(null)
+  const raycaster = useRef(new THREE.Raycaster())
+  const floor = useRef(new THREE.Vector3())
+  const lastFloorY = useRef<number | null>(null)
+
+  useFrame((state) => {
+    const group = groupRef.current
+    if (!group) return
+    raycaster.current.setFromCamera(_canvasBottom, state.camera)
+    if (!projectOntoDragPlane(raycaster.current.ray, state.camera, group, _origin, floor.current)) return
+    const y = floor.current.y
+    if (lastFloorY.current !== null && Math.abs(y - lastFloorY.current) < 0.01) return
+    lastFloorY.current = y
+    setGloveWorldFloor(y)
+  })
+
+  return <group ref={groupRef} />
+}
+
+// Preload every manifest model (with Draco decoder for compressed meshes)
+hangingScene.objects.forEach((object) => useGLTF.preload(object.modelUrl, true))
 
-export function HangingSpheres({ settings, shadowOpacity = 0.08, themeMode = 'light', gloveScaleRef, gloveLeftRotRef, gloveRightRotRef }: { settings: Settings; shadowOpacity?: number; themeMode?: 'light' | 'inverted' | 'dark' | 'darkInverted'; gloveScaleRef?: RefObject<number>; gloveLeftRotRef?: RefObject<number>; gloveRightRotRef?: RefObject<number> }) {
+export function HangingSpheres({ settings, ropeSegments = 32, manifest = hangingScene, shadowOpacity = 0.08, themeMode = 'light', gloveScaleRef, gloveLeftRotRef, gloveRightRotRef }: { settings: Settings; ropeSegments?: number; manifest?: HangingSceneManifest; shadowOpacity?: number; themeMode?: 'light' | 'inverted' | 'dark' | 'darkInverted'; gloveScaleRef?: RefObject<number>; gloveLeftRotRef?: RefObject<number>; gloveRightRotRef?: RefObject<number> }) {
   const shadowMatRef = useRef<THREE.ShadowMaterial>(null)
 
+  // Rope braid between the props — unwinds pairs left tangled (lib/ropeTangle)
+  useEffect(() => subscribeGloveWorldStep(stepTangle), [])
+
+  // Scroll-driven per-object Y rotation, picked by each manifest entry's scrollSway
+  const scrollRotRefs: Record<'left' | 'right', RefObject<number> | undefined> = {
+    left: gloveLeftRotRef,
+    right: gloveRightRotRef,
+  }
+
   // Fade shadow shortly after leaving hero — full at scale 1.15, gone by scale 1.11
   // (~27% into scroll travel). Clamp so it stays at 0 for the rest.
   useFrame(() => {
@@ -814,39 +1176,20 @@ export function HangingSpheres({ settings, shadowOpacity = 0.08, themeMode = 'li
         <shadowMaterial ref={shadowMatRef} opacity={shadowOpacity} transparent />
       </mesh>
 
-      {/* Anchor point visual - hidden since it should be off-screen */}
-      <mesh position={ANCHOR_POSITION} visible={false}>
-        <sphereGeometry args={[0.04, 16, 16]} />
-        <meshStandardMaterial color="#111" metalness={0.9} roughness={0.2} />
-      </mesh>
+      {manifest.objects.map((object) => (
+        <DraggableGloveWithRope
+          key={object.id}
+          config={object}
+          ropeOrigin={manifest.ropeOrigin}
+          themeMode={themeMode}
+          scrollRotRef={object.scrollSway && scrollRotRefs[object.scrollSway]}
+          settings={settings}
+          ropeSegments={ropeSegments}
+        />
+      ))}
 
-      {/* Left glove - offset left and slightly forward, drops after right */}
-      <DraggableGloveWithRope
-        anchorOffset={[-0.4, 0, 0.15]}
-        dropDelay={700}
-        themeMode={themeMode}
-        modelUrl={leftGloveModelUrl}
-        yRotation={Math.PI + Math.PI / 6 - Math.PI / 4}
-        scrollRotRef={gloveLeftRotRef}
-        settings={{
-          ...settings,
-          stringLength: settings.stringLength + 0.25,
-        }}
-      />
-
-      {/* Right glove - offset right and slightly back, with extended cord */}
-      <DraggableGloveWithRope
-        anchorOffset={[0.4, 0, -0.15]}
-        dropDelay={600}
-        themeMode={themeMode}
-        modelUrl={rightGloveModelUrl}
-        yRotation={Math.PI + (45 * Math.PI / 180)}
-        scrollRotRef={gloveRightRotRef}
-        settings={{
-          ...settings,
-          stringLength: settings.stringLength + 0.7,
-        }}
-      />
+      <CursorCollider objects={manifest.objects} sensitivity={settings.cursorSensitivity} />
+      <CanvasFloor />
     </group>
   )
 }
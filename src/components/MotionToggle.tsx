@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react'
+import { IoPhonePortrait, IoPhonePortraitOutline } from 'react-icons/io5'
+import { colorTokens } from '../constants/themes'
+import { elevations } from '../constants/elevations'
+import { DURATION } from '../constants'
+import {
+  disableMotion,
+  enableMotion,
+  isMotionEnabled,
+  isMotionSupported,
+  requestMotionPermission,
+  subscribeMotionEnabled,
+} from '../lib/deviceMotion'
+
+const SIZE = 40
+
+// Opt-in tilt + shake control for the glove scene. Only rendered where sensors
+// exist (touch devices, or ?sensor=mock). The click is the user gesture iOS
+// needs before requestPermission() will show its prompt.
+export function MotionToggle({ style }: { style?: React.CSSProperties }) {
+  const [enabled, setEnabled] = useState(isMotionEnabled)
+  const [denied, setDenied] = useState(false)
+  const [supported] = useState(isMotionSupported)
+
+  useEffect(() => subscribeMotionEnabled(setEnabled), [])
+
+  if (!supported) return null
+
+  const handleClick = async () => {
+    if (enabled) {
+      disableMotion()
+      return
+    }
+    const permission = await requestMotionPermission()
+    if (permission === 'granted') {
+      setDenied(false)
+      enableMotion()
+    } else {
+      setDenied(true)
+    }
+  }
+
+  const label = enabled
+    ? 'Turn off tilt to swing the gloves'
+    : denied
+      ? 'Motion access was denied — allow it in your browser settings to tilt the gloves'
+      : 'Turn on tilt to swing the gloves'
+
+  return (
+    <button
+      type="button"
+      aria-pressed={enabled}
+      aria-label={label}
+      title={enabled ? 'Tilt on' : 'Tilt off'}
+      data-cursor="morph"
+      onClick={handleClick}
+      style={{
+        width: SIZE,
+        height: SIZE,
+        borderRadius: SIZE / 2,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: colorTokens.surfaceWhiteHover,
+        border: `1px solid ${colorTokens.surfaceWhite}`,
+        boxShadow: elevations.sm,
+        backdropFilter: 'blur(4px)',
+        WebkitBackdropFilter: 'blur(4px)',
+        color: colorTokens.neutralDarkGray,
+        opacity: denied ? 0.5 : 1,
+        fontSize: 18,
+        cursor: 'pointer',
+        transition: `background ${DURATION.normal}s ease, opacity ${DURATION.normal}s ease`,
+        ...style,
+      }}
+    >
+      {enabled ? <IoPhonePortrait aria-hidden="true" /> : <IoPhonePortraitOutline aria-hidden="true" />}
+    </button>
+  )
+}
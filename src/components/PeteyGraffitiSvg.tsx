@@ -4,10 +4,12 @@ interface PeteyGraffitiSvgProps {
   className?: string
   style?: React.CSSProperties
   fill?: string
+  /** Paint this graffiti under the gloves in composited snapshots (lib/capture) */
+  captureBackground?: boolean
 }
 
 export const PeteyGraffitiSvg = React.forwardRef<SVGSVGElement, PeteyGraffitiSvgProps>(
-  function PeteyGraffitiSvg({ className, style, fill = '#888888' }, ref) {
+  function PeteyGraffitiSvg({ className, style, fill = '#888888', captureBackground }, ref) {
     return (
       <svg
         ref={ref}
@@ -16,6 +18,7 @@ export const PeteyGraffitiSvg = React.forwardRef<SVGSVGElement, PeteyGraffitiSvg
         fill={fill}
         className={className}
         style={style}
+        data-capture-background={captureBackground || undefined}
       >
         <defs>
           <style>{`.cls-1 { fill: #fff; }`}</style>
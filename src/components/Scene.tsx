@@ -1,11 +1,26 @@
 import { Canvas, useThree, useFrame } from '@react-three/fiber'
-import { Environment, Lightformer } from '@react-three/drei'
-import { Physics } from '@react-three/rapier'
-import { Suspense, useEffect, useRef, useState } from 'react'
+import { Environment, Lightformer, OrbitControls, PerformanceMonitor } from '@react-three/drei'
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { HangingSpheres } from './HangingSpheres'
+import { CanvasErrorBoundary } from './CanvasErrorBoundary'
+import { GlovePoster } from './GlovePoster'
+import { WeatherParticles } from './WeatherParticles'
 import { prefersReducedMotion } from '../hooks/useReducedMotion'
+import { useQualityTier } from '../hooks/useQualityTier'
+import { useInspectedGlove } from '../hooks/useGloveInspect'
+import { useGloveWorldFailed } from '../hooks/useGloveWorldFailed'
+import { getQualityTierIndex, setQualityTierIndex } from '../lib/quality'
+import { isWebGLAvailable } from '../lib/webgl'
+import { registerCaptureTarget } from '../lib/capture'
+import { deviceTiltRef, isMotionEnabled } from '../lib/deviceMotion'
+import { configureGloveWorld, setGloveWorldActive, setGloveWorldInput } from '../lib/gloveWorld'
+import { getNycWeather, windAccelAt } from '../lib/nycWeather'
+import { readScrollVelocity } from '../lib/scrollVelocity'
+import { getSessionMode } from '../lib/sessionRecording'
+import { getSolarLighting } from '../lib/solarTime'
+import { endGloveInspect, getInspectTarget, getInspectedGlove } from '../lib/gloveInspect'
 import * as THREE from 'three'
-import type { Settings, ShadowSettings, ThemeMode } from '../types'
+import type { Settings, ShadowSettings, ThemeMode, Vec3 } from '../types'
 
 // =============================================================================
 // LIGHTING TOKENS — 3D-specific color palette (not shared with UI themes)
@@ -53,6 +68,15 @@ const lightingTokens = {
     lfLeftDark: '#D8A8D8',      // Soft mauve purple tint
     lfRingDark: '#FF9955',      // Coral-orange accent
   },
+
+  // Solar night — the dusk targets cool to moonlight after twilight (lib/solarTime)
+  night: {
+    backDark: '#6680CC',        // Moonlit blue rim
+    topDark: '#8090B8',         // Blue-gray overhead
+    spotDark: '#8899CC',        // Cool blue backlight
+    lfTopDark: '#445577',       // Dim slate top reflections
+    lfRingDark: '#5577AA',      // Moonlight accent
+  },
 } as const
 
 // Global ref for mouse position - updated by App.tsx, read by Scene internals
@@ -75,93 +99,248 @@ function ShadowMapUpdater() {
   return null
 }
 
-// Hook to detect pause events and control physics
-function usePhysicsPauseDetection() {
-  const [isPaused, setIsPaused] = useState(false)
-  const lastTime = useRef(performance.now())
-  const pauseTimeoutRef = useRef<number | null>(null)
+// Quality governor — drei's PerformanceMonitor samples frame times against the
+// display's refresh rate and reports sustained drops or headroom; each report
+// moves one tier (lib/quality). After repeated flip-flopping it settles on "low".
+// The tier itself is applied by Scene (dpr, shadows, Environment, rope segments);
+// this only handles what props can't: recompiling materials for the new shadow type.
+function QualityGovernor({ softShadows }: { softShadows: boolean }) {
+  const get = useThree((state) => state.get)
 
   useEffect(() => {
-    const checkForPause = () => {
-      const now = performance.now()
-      const elapsed = now - lastTime.current
-      lastTime.current = now
-
-      // If more than 100ms elapsed, pause physics briefly
-      if (elapsed > 100) {
-        setIsPaused(true)
-        // Resume after a short delay to let things stabilize
-        if (pauseTimeoutRef.current) {
-          clearTimeout(pauseTimeoutRef.current)
-        }
-        pauseTimeoutRef.current = window.setTimeout(() => {
-          setIsPaused(false)
-        }, 50)
-      }
+    const { scene, gl } = get()
+    scene.traverse((object) => {
+      const mesh = object as THREE.Mesh
+      if (!mesh.isMesh) return
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+      materials.forEach((material) => { material.needsUpdate = true })
+    })
+    gl.shadowMap.needsUpdate = true
+  }, [softShadows, get])
+
+  return (
+    <PerformanceMonitor
+      flipflops={4}
+      onDecline={() => setQualityTierIndex(getQualityTierIndex() + 1)}
+      onIncline={() => setQualityTierIndex(getQualityTierIndex() - 1)}
+      onFallback={() => setQualityTierIndex(2)}
+    />
+  )
+}
+
+// Hands the renderer, scene and camera to lib/capture so the DOM-side capture
+// controls can snapshot or record this Canvas
+function CaptureBridge() {
+  const { gl, scene, camera } = useThree()
+  useEffect(() => registerCaptureTarget({ gl, scene, camera }), [gl, scene, camera])
+  return null
+}
+
+// Inspect mode (lib/gloveInspect): fly the camera in to the inspected glove,
+// hand over to damped orbit/zoom controls around it, and on Esc fly back to
+// the resting composition before ending the inspection (which unfreezes the
+// page scroll). Under reduced motion the flights are instant.
+const INSPECT_DISTANCE = 2.2       // Camera ↔ glove on arrival
+const INSPECT_FLIGHT = 0.9         // Seconds per flight
+const INSPECT_MIN_DISTANCE = 1.2
+const INSPECT_MAX_DISTANCE = 3.5
+const INSPECT_POLAR_MARGIN = 0.35  // Radians kept clear of straight up/down
+const REST_TARGET = new THREE.Vector3(0, 0, 0) // Where the resting camera looks
+
+interface CameraFlight {
+  fromPosition: THREE.Vector3
+  fromTarget: THREE.Vector3
+  toPosition: THREE.Vector3
+  toTarget: THREE.Vector3
+  elapsed: number
+  onArrive: () => void
+}
 
-      requestAnimationFrame(checkForPause)
+function easeInOutCubic(t: number) {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+}
+
+function InspectCamera() {
+  const camera = useThree((state) => state.camera)
+  const inspected = useInspectedGlove()
+  const [orbitTarget, setOrbitTarget] = useState<Vec3 | null>(null)
+  const flight = useRef<CameraFlight | null>(null)
+  const restPosition = useRef(new THREE.Vector3())
+  const lookTarget = useRef(new THREE.Vector3())
+
+  // Fly in when a glove is picked
+  useEffect(() => {
+    const target = inspected ? getInspectTarget(inspected) : undefined
+    if (!target) return
+    restPosition.current.copy(camera.position)
+    const focus = target.getWorldPosition(new THREE.Vector3())
+    flight.current = {
+      fromPosition: camera.position.clone(),
+      fromTarget: REST_TARGET.clone(),
+      toPosition: camera.position.clone().sub(focus).setLength(INSPECT_DISTANCE).add(focus),
+      toTarget: focus,
+      elapsed: 0,
+      onArrive: () => setOrbitTarget([focus.x, focus.y, focus.z]),
     }
+  }, [inspected, camera])
 
-    const rafId = requestAnimationFrame(checkForPause)
-
-    // Also pause on visibility change
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        setIsPaused(true)
-      } else {
-        // Resume after a delay when becoming visible
-        if (pauseTimeoutRef.current) {
-          clearTimeout(pauseTimeoutRef.current)
-        }
-        pauseTimeoutRef.current = window.setTimeout(() => {
-          setIsPaused(false)
-        }, 100)
+  // Esc: controls off, fly back, then end the inspection
+  useEffect(() => {
+    if (!inspected) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || getInspectedGlove() === null) return
+      setOrbitTarget(null)
+      flight.current = {
+        fromPosition: camera.position.clone(),
+        fromTarget: lookTarget.current.clone(),
+        toPosition: restPosition.current.clone(),
+        toTarget: REST_TARGET.clone(),
+        elapsed: 0,
+        onArrive: endGloveInspect,
       }
     }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [inspected, camera])
+
+  useFrame((_, delta) => {
+    const current = flight.current
+    if (!current) return
+    current.elapsed += delta
+    const progress = prefersReducedMotion() ? 1 : Math.min(current.elapsed / INSPECT_FLIGHT, 1)
+    const eased = easeInOutCubic(progress)
+    camera.position.lerpVectors(current.fromPosition, current.toPosition, eased)
+    lookTarget.current.lerpVectors(current.fromTarget, current.toTarget, eased)
+    camera.lookAt(lookTarget.current)
+    if (progress < 1) return
+    flight.current = null
+    current.onArrive()
+  })
+
+  if (!orbitTarget) return null
+  return (
+    <OrbitControls
+      target={orbitTarget}
+      enableDamping
+      dampingFactor={0.08}
+      enablePan={false}
+      minDistance={INSPECT_MIN_DISTANCE}
+      maxDistance={INSPECT_MAX_DISTANCE}
+      minPolarAngle={INSPECT_POLAR_MARGIN}
+      maxPolarAngle={Math.PI - INSPECT_POLAR_MARGIN}
+      rotateSpeed={0.6}
+      zoomSpeed={0.6}
+    />
+  )
+}
 
-    document.addEventListener('visibilitychange', handleVisibilityChange)
+// Drives the glove physics worker (lib/gloveWorld): the world setup, whether
+// it steps at all — only while the hero is on screen, resuming where it stopped
+// with no catch-up steps — and the per-frame inputs. Phone tilt leans the
+// world's gravity (opt-in, see lib/deviceMotion) so the gloves swing toward the
+// low side. Tilt x leans gravity along +X (screen right), tilt y along +Z
+// (toward the viewer); magnitude stays |gravity|.
+const MAX_GRAVITY_TILT = 0.5 // radians at full tilt
 
-    return () => {
-      cancelAnimationFrame(rafId)
-      document.removeEventListener('visibilitychange', handleVisibilityChange)
-      if (pauseTimeoutRef.current) {
-        clearTimeout(pauseTimeoutRef.current)
-      }
+const _wind = new THREE.Vector3()
+
+function GloveWorldDriver({ gravity, scrollInertia, active }: { gravity: number; scrollInertia: number; active: boolean }) {
+  useEffect(() => {
+    configureGloveWorld({ gravity, scrollInertia, reducedMotion: prefersReducedMotion() })
+  }, [gravity, scrollInertia])
+
+  useEffect(() => setGloveWorldActive(active), [active])
+
+  useFrame(() => {
+    let leaned: Vec3 = [0, gravity, 0]
+    if (isMotionEnabled()) {
+      const ax = deviceTiltRef.current.x * MAX_GRAVITY_TILT
+      const az = deviceTiltRef.current.y * MAX_GRAVITY_TILT
+      leaned = [
+        -gravity * Math.sin(ax),
+        gravity * Math.cos(ax) * Math.cos(az),
+        -gravity * Math.sin(az) * Math.cos(ax),
+      ]
     }
-  }, [])
+    windAccelAt(getNycWeather(), performance.now() / 1000, _wind)
+    setGloveWorldInput({
+      gravity: leaned,
+      wind: [_wind.x, _wind.y, _wind.z],
+      scrollVelocity: readScrollVelocity(),
+      inSession: getSessionMode() !== 'idle',
+    })
+  })
+
+  return null
+}
 
-  return isPaused
+// Light rig — resting intensity and color of each light. Themes each have one;
+// DUSK_RIG is where the dusk blend (solar + scroll) pulls them toward.
+type RigLight = 'main' | 'fill' | 'back' | 'top' | 'ambient' | 'spot'
+
+interface LightRig {
+  /** 0 = daylight theme, 1 = night theme (dark themes skip the solar blend) */
+  darkness: number
+  intensity: Record<RigLight, number>
+  color: Record<RigLight, THREE.Color>
 }
 
-// Wrapper component that handles physics with pause detection
-function PhysicsWithPauseDetection({ children }: { children: React.ReactNode }) {
-  const isPaused = usePhysicsPauseDetection()
+function makeRig(darkness: number, intensity: Record<RigLight, number>, color: Record<RigLight, string>): LightRig {
+  const colors = {} as Record<RigLight, THREE.Color>
+  for (const light of Object.keys(color) as RigLight[]) colors[light] = new THREE.Color(color[light])
+  return { darkness, intensity: { ...intensity }, color: colors }
+}
 
-  return (
-    <Physics
-      gravity={[0, -9.81, 0]}
-      timeStep={1/60}
-      updatePriority={-50}
-      paused={isPaused}
-      interpolate={true}
-    >
-      {children}
-    </Physics>
-  )
+function cloneRig(source: LightRig): LightRig {
+  const colors = {} as Record<RigLight, THREE.Color>
+  for (const light of Object.keys(source.color) as RigLight[]) colors[light] = source.color[light].clone()
+  return { darkness: source.darkness, intensity: { ...source.intensity }, color: colors }
+}
+
+// Light theme: warm, bright daylight lighting
+const LIGHT_RIG = makeRig(0,
+  { main: 3, fill: 1.5, back: 2, top: 30, ambient: 0.6, spot: 0 },
+  { main: lightingTokens.white, fill: lightingTokens.light.fill, back: lightingTokens.light.back, top: lightingTokens.white, ambient: lightingTokens.white, spot: lightingTokens.dark.spot })
+// Dark theme: cooler nighttime lighting with spotlight feel
+const DARK_RIG = makeRig(1,
+  { main: 2.4, fill: 1.0, back: 1.2, top: 20, ambient: 0.4, spot: 40 },
+  { main: lightingTokens.dark.main, fill: lightingTokens.dark.fill, back: lightingTokens.dark.back, top: lightingTokens.dark.top, ambient: lightingTokens.dark.ambient, spot: lightingTokens.dark.spot })
+// Pure black bg needs a brighter, white spotlight
+const DARKEST_RIG = cloneRig(DARK_RIG)
+DARKEST_RIG.intensity.spot = 80
+DARKEST_RIG.color.spot.set(lightingTokens.darkest.spot)
+const DUSK_RIG = makeRig(1,
+  { main: 0.3, fill: 0.4, back: 4, top: 5, ambient: 0.08, spot: 60 },
+  { main: lightingTokens.dusk.mainDark, fill: lightingTokens.dusk.fillDark, back: lightingTokens.dusk.backDark, top: lightingTokens.dusk.topDark, ambient: lightingTokens.dusk.ambDark, spot: lightingTokens.dusk.spotDark })
+
+const THEME_EASE_SECONDS = 0.35 // Time constant of the cross-fade when the theme changes
+
+function rigFor(themeMode: ThemeMode): LightRig {
+  if (themeMode === 'darkInverted') return DARKEST_RIG
+  return themeMode === 'dark' ? DARK_RIG : LIGHT_RIG
+}
+
+// Resting solar blend with scroll dusk layered on top. Dark themes are already a
+// night look, so they only take the scroll dusk; scrolling hands the palette back
+// from moonlight to the designed sunset.
+function duskBlend(darkness: number, gloveDuskRef?: React.RefObject<number>): { t: number; night: number } {
+  const scroll = gloveDuskRef?.current ?? 0
+  if (darkness >= 1) return { t: scroll, night: 0 }
+  const solar = getSolarLighting()
+  const dusk = solar.dusk * (1 - darkness)
+  return { t: dusk + (1 - dusk) * scroll, night: solar.night * (1 - darkness) * (1 - scroll) }
 }
 
-function Lighting({ lightPos, shadowMapSize, cameraBounds, cameraFar, shadowRadius, shadowBias, isDarkTheme, themeMode, gloveDuskRef }: {
+function Lighting({ lightPos, shadowMapSize, cameraBounds, cameraFar, shadowRadius, shadowBias, themeMode, gloveDuskRef }: {
   lightPos: [number, number, number]
   shadowMapSize: [number, number]
   cameraBounds: number
   cameraFar: number
   shadowRadius: number
   shadowBias: number
-  isDarkTheme: boolean
   themeMode: ThemeMode
   gloveDuskRef?: React.RefObject<number>
 }) {
-  const isDarkestTheme = themeMode === 'darkInverted' // Pure black bg needs brighter spotlight
   const { gl } = useThree()
   const mainLightRef = useRef<THREE.DirectionalLight>(null)
   const fillLightRef = useRef<THREE.DirectionalLight>(null)
@@ -170,26 +349,32 @@ function Lighting({ lightPos, shadowMapSize, cameraBounds, cameraFar, shadowRadi
   const ambientRef = useRef<THREE.AmbientLight>(null)
   const spotRef = useRef<THREE.SpotLight>(null)
 
-  // Pre-computed color pairs for dusk interpolation (allocated once, reused every frame)
+  // The theme's rig, and the one actually lit — eased toward it every frame so a
+  // theme switch cross-fades the lights instead of cutting (no Canvas remount)
+  const themeRig = rigFor(themeMode)
+  const baseRig = useRef(cloneRig(themeRig))
+
+  // Scratch colors for the dusk interpolation (allocated once, reused every frame)
   const duskColors = useRef({
-    mainLight: new THREE.Color(lightingTokens.white),
-    mainDark: new THREE.Color(lightingTokens.dusk.mainDark),      // near-black — "dark side" facing viewer
-    fillLight: new THREE.Color(lightingTokens.light.fill),
-    fillDark: new THREE.Color(lightingTokens.dusk.fillDark),       // warm terra cotta side-spill from sunset behind
-    backLight: new THREE.Color(lightingTokens.light.back),
-    backDark: new THREE.Color(lightingTokens.dusk.backDark),       // bright coral-orange — hero rim light
-    topLight: new THREE.Color(lightingTokens.white),
-    topDark: new THREE.Color(lightingTokens.dusk.topDark),        // soft lavender — upper sunset atmosphere
-    ambLight: new THREE.Color(lightingTokens.white),
-    ambDark: new THREE.Color(lightingTokens.dusk.ambDark),        // near-black — deep shadows, minimal fill
-    spotLight: new THREE.Color(lightingTokens.dark.spot),
-    spotDark: new THREE.Color(lightingTokens.dusk.spotDark),       // warm orange backlight
+    backNight: new THREE.Color(lightingTokens.night.backDark),
+    topNight: new THREE.Color(lightingTokens.night.topDark),
+    spotNight: new THREE.Color(lightingTokens.night.spotDark),
     tmp: new THREE.Color(),
+    target: new THREE.Color(),
   })
 
   // Current light position with smooth interpolation
   const currentLightPos = useRef({ x: lightPos[0], y: lightPos[1], z: lightPos[2] })
 
+  // A new mapSize only takes effect once the existing shadow render target is dropped
+  const mapResolution = shadowMapSize[0]
+  useEffect(() => {
+    const shadow = mainLightRef.current?.shadow
+    if (!shadow?.map) return
+    shadow.map.dispose()
+    shadow.map = null
+  }, [mapResolution])
+
   // Force shadow map update when parameters change
   useEffect(() => {
     if (gl.shadowMap.enabled) {
@@ -240,67 +425,54 @@ function Lighting({ lightPos, shadowMapSize, cameraBounds, cameraFar, shadowRadi
     }
   })
 
-  // Scroll-driven dusk interpolation — reads gloveDuskRef (0→1) each frame
-  // and imperatively updates all light intensities and colors.
+  // Theme cross-fade + dusk interpolation. The base rig eases toward the
+  // theme's; the NYC solar time sets a resting dusk blend and scroll-driven dusk
+  // (gloveDuskRef, 0→1) pushes the rest of the way on top. Imperatively updates
+  // all light intensities and colors each frame.
   // Runs AFTER the mouse-follow useFrame above (declaration order in R3F).
-  useFrame(() => {
-    const t = gloveDuskRef?.current ?? 0
-    if (t === 0) return
+  useFrame((_, rawDelta) => {
+    const base = baseRig.current
+    const k = 1 - Math.exp(-Math.min(rawDelta, 0.05) / THEME_EASE_SECONDS)
+    base.darkness += (themeRig.darkness - base.darkness) * k
+    for (const light of Object.keys(base.intensity) as RigLight[]) {
+      base.intensity[light] += (themeRig.intensity[light] - base.intensity[light]) * k
+      base.color[light].lerp(themeRig.color[light], k)
+    }
+
+    const { t, night } = duskBlend(base.darkness, gloveDuskRef)
     const c = duskColors.current
+    const apply = (light: THREE.Light | null, name: RigLight, duskColor: THREE.Color) => {
+      if (!light) return
+      light.intensity = base.intensity[name] + (DUSK_RIG.intensity[name] - base.intensity[name]) * t
+      light.color.copy(c.tmp.lerpColors(base.color[name], duskColor, t))
+    }
 
     // Front light crushes to near-black — "dark side of the moon"
-    if (mainLightRef.current) {
-      mainLightRef.current.intensity = 3.0 + (0.3 - 3.0) * t
-      mainLightRef.current.color.copy(c.tmp.lerpColors(c.mainLight, c.mainDark, t))
-    }
+    apply(mainLightRef.current, 'main', DUSK_RIG.color.main)
     // Side fill dims, picks up warm terra cotta
-    if (fillLightRef.current) {
-      fillLightRef.current.intensity = 1.5 + (0.4 - 1.5) * t
-      fillLightRef.current.color.copy(c.tmp.lerpColors(c.fillLight, c.fillDark, t))
-    }
-    // Back rim SURGES — bright coral-orange sunset edge
-    if (backLightRef.current) {
-      backLightRef.current.intensity = 2.0 + (4.0 - 2.0) * t
-      backLightRef.current.color.copy(c.tmp.lerpColors(c.backLight, c.backDark, t))
-    }
+    apply(fillLightRef.current, 'fill', DUSK_RIG.color.fill)
+    // Back rim SURGES — bright coral-orange sunset edge (moonlit blue at solar night)
+    apply(backLightRef.current, 'back', c.target.lerpColors(DUSK_RIG.color.back, c.backNight, night))
     // Top light drops, shifts to soft lavender
-    if (topLightRef.current) {
-      topLightRef.current.intensity = 30 + (5 - 30) * t
-      topLightRef.current.color.copy(c.tmp.lerpColors(c.topLight, c.topDark, t))
-    }
+    apply(topLightRef.current, 'top', c.target.lerpColors(DUSK_RIG.color.top, c.topNight, night))
     // Ambient crushes to near-black — deep shadows
-    if (ambientRef.current) {
-      ambientRef.current.intensity = 0.6 + (0.08 - 0.6) * t
-      ambientRef.current.color.copy(c.tmp.lerpColors(c.ambLight, c.ambDark, t))
-    }
+    apply(ambientRef.current, 'ambient', DUSK_RIG.color.ambient)
     // Spotlight: repositions from front to BEHIND gloves, warm orange backlight
+    apply(spotRef.current, 'spot', c.target.lerpColors(DUSK_RIG.color.spot, c.spotNight, night))
     if (spotRef.current) {
-      spotRef.current.intensity = 60 * t
       spotRef.current.position.z = 8 + (-6 - 8) * t    // front → behind
       spotRef.current.position.y = 4 + (3 - 4) * t     // slight drop
-      spotRef.current.color.copy(c.tmp.lerpColors(c.spotLight, c.spotDark, t))
     }
   })
 
-  // Dark theme: cooler nighttime lighting with spotlight feel
-  // Light theme: warm, bright daylight lighting
-  const mainIntensity = isDarkTheme ? 2.4 : 3
-  const fillIntensity = isDarkTheme ? 1.0 : 1.5
-  const fillColor = isDarkTheme ? lightingTokens.dark.fill : lightingTokens.light.fill // Cooler blue for night
-  const backIntensity = isDarkTheme ? 1.2 : 2
-  const backColor = isDarkTheme ? lightingTokens.dark.back : lightingTokens.light.back // Cool moonlight vs warm sunlight
-  const topIntensity = isDarkTheme ? 20 : 30
-  const topColor = isDarkTheme ? lightingTokens.dark.top : lightingTokens.white // Soft blue-gray vs white
-  const ambientIntensity = isDarkTheme ? 0.4 : 0.6
-
   return (
     <>
       {/* Main light from front - creates shadow behind gloves */}
       <directionalLight
         ref={mainLightRef}
         position={lightPos}
-        intensity={mainIntensity}
-        color={isDarkTheme ? lightingTokens.dark.main : lightingTokens.white}
+        intensity={themeRig.intensity.main}
+        color={themeRig.color.main}
         castShadow
         shadow-mapSize={shadowMapSize}
         shadow-camera-left={-cameraBounds}
@@ -317,37 +489,37 @@ function Lighting({ lightPos, shadowMapSize, cameraBounds, cameraFar, shadowRadi
       <directionalLight
         ref={fillLightRef}
         position={[-4, 3, 2]}
-        intensity={fillIntensity}
-        color={fillColor}
+        intensity={themeRig.intensity.fill}
+        color={themeRig.color.fill}
       />
 
       {/* Back light - creates rim lighting */}
       <directionalLight
         ref={backLightRef}
         position={[0, 3, -5]}
-        intensity={backIntensity}
-        color={backColor}
+        intensity={themeRig.intensity.back}
+        color={themeRig.color.back}
       />
 
       {/* Top light */}
       <pointLight
         ref={topLightRef}
         position={[0, 6, 0]}
-        intensity={topIntensity}
-        color={topColor}
+        intensity={themeRig.intensity.top}
+        color={themeRig.color.top}
       />
 
       {/* Ambient fill */}
-      <ambientLight ref={ambientRef} intensity={ambientIntensity} color={isDarkTheme ? lightingTokens.dark.ambient : lightingTokens.white} />
+      <ambientLight ref={ambientRef} intensity={themeRig.intensity.ambient} color={themeRig.color.ambient} />
 
-      {/* Spotlight — always present, fades in via dusk interpolation (intensity 0 at t=0) */}
+      {/* Spotlight — always present; off in daylight until the dusk blend fades it in */}
       <spotLight
         ref={spotRef}
         position={[0, 4, 8]}
         angle={0.6}
         penumbra={0.8}
-        intensity={isDarkTheme ? (isDarkestTheme ? 80 : 40) : 0}
-        color={isDarkTheme ? (isDarkestTheme ? lightingTokens.darkest.spot : lightingTokens.dark.spot) : lightingTokens.dark.spot}
+        intensity={themeRig.intensity.spot}
+        color={themeRig.color.spot}
         target-position={[0, 0, 0]}
       />
     </>
@@ -363,6 +535,7 @@ function MouseFollowGroup({ children }: { children: React.ReactNode }) {
 
   useFrame((_, rawDelta) => {
     if (!groupRef.current) return
+    if (getInspectedGlove() !== null) return // Hold still while a glove is being orbited
     const delta = Math.min(rawDelta, 0.05)
     const mouse = mousePositionRef.current
     const maxRotation = 0.12 // Increased for more noticeable cursor follow
@@ -433,17 +606,20 @@ function DuskLightformers({ isDarkTheme, gloveDuskRef }: { isDarkTheme: boolean;
     lf2Dark: new THREE.Color(lightingTokens.dusk.lfLeftDark),       // soft mauve — purple tint on left
     lf3Light: new THREE.Color(lightingTokens.light.accent),
     lf3Dark: new THREE.Color(lightingTokens.dusk.lfRingDark),       // coral-orange (gold → warm sunset)
+    lf1Night: new THREE.Color(lightingTokens.night.lfTopDark),
+    lf3Night: new THREE.Color(lightingTokens.night.lfRingDark),
     tmp: new THREE.Color(),
+    target: new THREE.Color(),
   })
 
   useFrame(() => {
-    const t = gloveDuskRef?.current ?? 0
+    const { t, night } = duskBlend(isDarkTheme ? 1 : 0, gloveDuskRef)
     if (t === 0) return
     const c = lfColors.current
 
     if (lf1Ref.current) {
       const mat = (lf1Ref.current as unknown as { material: THREE.MeshBasicMaterial }).material
-      mat.color.copy(c.tmp.lerpColors(c.lf1Light, c.lf1Dark, t))
+      mat.color.copy(c.tmp.lerpColors(c.lf1Light, c.target.lerpColors(c.lf1Dark, c.lf1Night, night), t))
       const intensity = 4.0 + (1.5 - 4.0) * t     // 4.0 → 1.5
       mat.color.multiplyScalar(intensity / 4.0)
     }
@@ -455,7 +631,7 @@ function DuskLightformers({ isDarkTheme, gloveDuskRef }: { isDarkTheme: boolean;
     }
     if (lf3Ref.current) {
       const mat = (lf3Ref.current as unknown as { material: THREE.MeshBasicMaterial }).material
-      mat.color.copy(c.tmp.lerpColors(c.lf3Light, c.lf3Dark, t))
+      mat.color.copy(c.tmp.lerpColors(c.lf3Light, c.target.lerpColors(c.lf3Dark, c.lf3Night, night), t))
       const intensity = 1.0 + (2.0 - 1.0) * t     // 1.0 → 2.0 (INCREASES — warm accent)
       mat.color.multiplyScalar(intensity / 1.0)
     }
@@ -494,69 +670,106 @@ function DuskLightformers({ isDarkTheme, gloveDuskRef }: { isDarkTheme: boolean;
   )
 }
 
-export function Scene({ settings, shadowSettings, themeMode = 'light', gloveScaleRef, gloveRotationRef, gloveDuskRef, gloveHorizontalRef, gloveLeftRotRef, gloveRightRotRef }: { settings: Settings; shadowSettings?: ShadowSettings; themeMode?: ThemeMode; gloveScaleRef?: React.RefObject<number>; gloveRotationRef?: React.RefObject<number>; gloveDuskRef?: React.RefObject<number>; gloveHorizontalRef?: React.RefObject<number>; gloveLeftRotRef?: React.RefObject<number>; gloveRightRotRef?: React.RefObject<number> }) {
+export function Scene({ settings, shadowSettings, themeMode = 'light', active = true, gloveScaleRef, gloveRotationRef, gloveDuskRef, gloveHorizontalRef, gloveLeftRotRef, gloveRightRotRef }: { settings: Settings; shadowSettings?: ShadowSettings; themeMode?: ThemeMode; active?: boolean; gloveScaleRef?: React.RefObject<number>; gloveRotationRef?: React.RefObject<number>; gloveDuskRef?: React.RefObject<number>; gloveHorizontalRef?: React.RefObject<number>; gloveLeftRotRef?: React.RefObject<number>; gloveRightRotRef?: React.RefObject<number> }) {
   const isDarkTheme = themeMode === 'dark' || themeMode === 'darkInverted'
+  const quality = useQualityTier()
   // Use shadow settings if provided, otherwise use defaults
   const lightPos: [number, number, number] = shadowSettings
     ? [shadowSettings.lightX, shadowSettings.lightY, shadowSettings.lightZ]
     : [0, 2.5, 10]
-  const shadowMapSize: [number, number] = shadowSettings
-    ? [shadowSettings.shadowMapSize, shadowSettings.shadowMapSize]
-    : [1024, 1024]
+  const mapSize = Math.min(shadowSettings?.shadowMapSize ?? 1024, quality.maxShadowMapSize)
+  const shadowMapSize: [number, number] = [mapSize, mapSize]
   const cameraBounds = shadowSettings?.shadowCameraBounds ?? 10
   const cameraFar = shadowSettings?.shadowCameraFar ?? 30
   const shadowRadius = shadowSettings?.shadowRadius ?? 40 // Increased for more diffuse shadow
   const shadowBias = shadowSettings?.shadowBias ?? -0.00005
   const shadowOpacity = shadowSettings?.shadowOpacity ?? 0.12
 
+  // WebGL resilience: no WebGL at all → static poster. On context loss the
+  // poster covers the slot; on restore the Canvas is remounted under a new key,
+  // which rebuilds rope geometries and cloned GLB materials. The Rapier world
+  // lives in the page-lifetime physics worker, so the gloves keep their motion;
+  // if that worker can't start Rapier at all, the poster covers the slot too.
+  const webglAvailable = useMemo(() => isWebGLAvailable(), [])
+  const [contextLost, setContextLost] = useState(false)
+  const physicsFailed = useGloveWorldFailed() // Frozen gloves would just look broken
+  const [canvasGeneration, setCanvasGeneration] = useState(0)
+
+  const handleCreated = useCallback(({ gl }: { gl: THREE.WebGLRenderer }) => {
+    gl.shadowMap.autoUpdate = true
+    gl.shadowMap.needsUpdate = true
+
+    const canvas = gl.domElement
+    canvas.addEventListener('webglcontextlost', (e) => {
+      e.preventDefault() // Tells the browser we'll handle restoration
+      setContextLost(true)
+    })
+    canvas.addEventListener('webglcontextrestored', () => {
+      setContextLost(false)
+      setCanvasGeneration((generation) => generation + 1)
+    })
+  }, [])
+
+  if (!webglAvailable) {
+    return (
+      <div className="w-full h-full" style={{ position: 'relative' }}>
+        <GlovePoster />
+      </div>
+    )
+  }
+
   return (
-    <div className="w-full h-full" style={{ pointerEvents: 'auto' }}>
-      <Canvas
-        camera={{ position: [0, 0, 7], fov: 45 }}
-        shadows
-        dpr={[1, 1.5]}
-        frameloop="always"
-        gl={{ antialias: true, alpha: true }}
-        onCreated={({ gl }) => {
-          gl.shadowMap.type = THREE.PCFSoftShadowMap
-          gl.shadowMap.autoUpdate = true
-          gl.shadowMap.needsUpdate = true
-        }}
-        style={{ background: 'transparent', pointerEvents: 'auto' }}
-      >
-        <Suspense fallback={null}>
-          <ShadowMapUpdater />
-
-          <ScaleGroup gloveScaleRef={gloveScaleRef}>
-            <HorizontalTranslateGroup gloveHorizontalRef={gloveHorizontalRef}>
-              <ScrollRotationGroup gloveRotationRef={gloveRotationRef}>
-                <MouseFollowGroup>
-                  <PhysicsWithPauseDetection>
-                    <HangingSpheres settings={settings} shadowOpacity={shadowOpacity} themeMode={themeMode} gloveScaleRef={gloveScaleRef} gloveLeftRotRef={gloveLeftRotRef} gloveRightRotRef={gloveRightRotRef} />
-                  </PhysicsWithPauseDetection>
-                </MouseFollowGroup>
-              </ScrollRotationGroup>
-            </HorizontalTranslateGroup>
-          </ScaleGroup>
-
-          <Lighting
-            lightPos={lightPos}
-            shadowMapSize={shadowMapSize}
-            cameraBounds={cameraBounds}
-            cameraFar={cameraFar}
-            shadowRadius={shadowRadius}
-            shadowBias={shadowBias}
-            isDarkTheme={isDarkTheme}
-            themeMode={themeMode}
-            gloveDuskRef={gloveDuskRef}
-          />
-
-          {/* Environment with custom lightformers for better reflections */}
-          <Environment resolution={256}>
-            <DuskLightformers isDarkTheme={isDarkTheme} gloveDuskRef={gloveDuskRef} />
-          </Environment>
-        </Suspense>
-      </Canvas>
+    <div className="w-full h-full" style={{ position: 'relative', pointerEvents: 'auto' }}>
+      <CanvasErrorBoundary key={canvasGeneration} fallback={<GlovePoster />}>
+        <Canvas
+          camera={{ position: [0, 0, 7], fov: 45 }}
+          shadows={quality.softShadows ? 'soft' : 'percentage'}
+          dpr={quality.dpr}
+          frameloop={active ? 'always' : 'demand'}
+          gl={{ antialias: true, alpha: true }}
+          onCreated={handleCreated}
+          style={{ background: 'transparent', pointerEvents: 'auto' }}
+        >
+          <Suspense fallback={null}>
+            <ShadowMapUpdater />
+            <QualityGovernor softShadows={quality.softShadows} />
+            <CaptureBridge />
+            <InspectCamera />
+
+            <ScaleGroup gloveScaleRef={gloveScaleRef}>
+              <HorizontalTranslateGroup gloveHorizontalRef={gloveHorizontalRef}>
+                <ScrollRotationGroup gloveRotationRef={gloveRotationRef}>
+                  <MouseFollowGroup>
+                    <GloveWorldDriver gravity={settings.gravity} scrollInertia={settings.scrollInertia} active={active} />
+                    <HangingSpheres settings={settings} ropeSegments={quality.ropeSegments} shadowOpacity={shadowOpacity} themeMode={themeMode} gloveScaleRef={gloveScaleRef} gloveLeftRotRef={gloveLeftRotRef} gloveRightRotRef={gloveRightRotRef} />
+                    <WeatherParticles maxCount={quality.weatherParticles} />
+                  </MouseFollowGroup>
+                </ScrollRotationGroup>
+              </HorizontalTranslateGroup>
+            </ScaleGroup>
+
+            <Lighting
+              lightPos={lightPos}
+              shadowMapSize={shadowMapSize}
+              cameraBounds={cameraBounds}
+              cameraFar={cameraFar}
+              shadowRadius={shadowRadius}
+              shadowBias={shadowBias}
+              themeMode={themeMode}
+              gloveDuskRef={gloveDuskRef}
+            />
+
+            {/* Environment with custom lightformers for better reflections (dropped on low tiers) */}
+            {quality.environment && (
+              <Environment resolution={256}>
+                <DuskLightformers isDarkTheme={isDarkTheme} gloveDuskRef={gloveDuskRef} />
+              </Environment>
+            )}
+          </Suspense>
+        </Canvas>
+      </CanvasErrorBoundary>
+
+      {(contextLost || physicsFailed) && <GlovePoster />}
     </div>
   )
 }
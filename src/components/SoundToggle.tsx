@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import { IoVolumeHigh, IoVolumeMute } from 'react-icons/io5'
+import { elevations } from '../constants/elevations'
+import { DURATION } from '../constants'
+import { isGloveAudioMuted, setGloveAudioMuted, subscribeGloveAudio } from '../lib/gloveAudio'
+
+const SIZE = 40
+
+// Mute/unmute for the glove scene's procedural sound + haptics.
+// Starts muted every visit — unmuting is the user gesture that unlocks Web Audio.
+export function SoundToggle({ style }: { style?: React.CSSProperties }) {
+  const [muted, setMuted] = useState(isGloveAudioMuted)
+
+  useEffect(() => subscribeGloveAudio(setMuted), [])
+
+  return (
+    <button
+      type="button"
+      aria-pressed={!muted}
+      aria-label="Glove sounds"
+      title={muted ? 'Sound off' : 'Sound on'}
+      data-cursor="morph"
+      onClick={() => setGloveAudioMuted(!muted)}
+      style={{
+        width: SIZE,
+        height: SIZE,
+        borderRadius: SIZE / 2,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'var(--control-surface)',
+        border: '1px solid var(--control-border)',
+        boxShadow: elevations.sm,
+        backdropFilter: 'blur(4px)',
+        WebkitBackdropFilter: 'blur(4px)',
+        color: 'var(--control-icon)',
+        fontSize: 18,
+        cursor: 'pointer',
+        transition: `background ${DURATION.normal}s ease`,
+        ...style,
+      }}
+    >
+      {muted ? <IoVolumeMute aria-hidden="true" /> : <IoVolumeHigh aria-hidden="true" />}
+    </button>
+  )
+}
@@ -0,0 +1,54 @@
+import { IoContrastOutline, IoMoonOutline, IoSunnyOutline } from 'react-icons/io5'
+import type { ThemePreference } from '../types'
+import { elevations } from '../constants/elevations'
+import { DURATION } from '../constants'
+import { useThemeMode, useThemePreference } from '../hooks/useTheme'
+import { nextThemePreference, setThemePreference } from '../lib/theme'
+
+const SIZE = 40
+
+const ICONS: Record<ThemePreference, typeof IoSunnyOutline> = {
+  system: IoContrastOutline,
+  light: IoSunnyOutline,
+  dark: IoMoonOutline,
+}
+
+// Light / dark / follow-the-system switch. Cycles system → light → dark; the
+// choice persists (lib/theme) and 'system' tracks prefers-color-scheme live.
+export function ThemeToggle({ style }: { style?: React.CSSProperties }) {
+  const preference = useThemePreference()
+  const mode = useThemeMode()
+  const next = nextThemePreference(preference)
+  const Icon = ICONS[preference]
+  const current = preference === 'system' ? `system theme (${mode === 'light' ? 'light' : 'dark'})` : `${preference} theme`
+
+  return (
+    <button
+      type="button"
+      aria-label={`Using the ${current} — switch to ${next === 'system' ? 'the system theme' : `${next} theme`}`}
+      title={preference === 'system' ? 'Theme: system' : preference === 'light' ? 'Theme: light' : 'Theme: dark'}
+      data-cursor="morph"
+      onClick={() => setThemePreference(next)}
+      style={{
+        width: SIZE,
+        height: SIZE,
+        borderRadius: SIZE / 2,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'var(--control-surface)',
+        border: '1px solid var(--control-border)',
+        boxShadow: elevations.sm,
+        backdropFilter: 'blur(4px)',
+        WebkitBackdropFilter: 'blur(4px)',
+        color: 'var(--control-icon)',
+        fontSize: 18,
+        cursor: 'pointer',
+        transition: `background ${DURATION.normal}s ease`,
+        ...style,
+      }}
+    >
+      <Icon aria-hidden="true" />
+    </button>
+  )
+}
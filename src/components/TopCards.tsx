@@ -5,6 +5,7 @@ import { createPortal } from 'react-dom'
 import { BREAKPOINTS, CAROUSEL_CONFIG, DURATION, WEIGHT, backdropColors, signatureSpring, ctaEntranceSpring, getVariantStyles, colorTokens, elevations, Z } from '../constants'
 import { cards, stackedCardConfigs } from '../data/cards'
 import { useReducedMotion } from '../hooks/useReducedMotion'
+import { registerGloveHitTarget, type GloveHitEvent } from '../lib/gloveHits'
 
 // Canonical card dimensions - the "ideal" size we design for
 const CANONICAL_CARD_WIDTH = 500
@@ -53,6 +54,18 @@ const getExpandedCardDimensions = () => {
   return { width, height, gap, scale }
 }
 
+// A glove punch landing on a card knocks it askew for a beat, away from the hit side
+function joltCard(e: GloveHitEvent) {
+  const el = e.currentTarget as HTMLElement
+  const rect = el.getBoundingClientRect()
+  const side = e.detail.clientX < rect.left + rect.width / 2 ? 1 : -1
+  const angle = 2.5 * side * e.detail.strength
+  el.animate(
+    [{ rotate: '0deg' }, { rotate: `${angle}deg` }, { rotate: '0deg' }],
+    { duration: 360, easing: 'cubic-bezier(0.2, 0.8, 0.2, 1)' }
+  )
+}
+
 export function TopCards({ cardIndices, themeMode = 'light', introStagger = false }: { cardIndices?: number[], themeMode?: 'light' | 'inverted' | 'dark' | 'darkInverted', introStagger?: boolean } = {}) {
   const reduced = useReducedMotion()
 
@@ -1071,6 +1084,23 @@ export function TopCards({ cardIndices, themeMode = 'light', introStagger = fals
   // Desktop: top 3 cards + full CTA card inline (no scroll)
   const visibleCards = isDesktop ? (ctaCard ? [...topThreeCards, ctaCard] : topThreeCards) : mobileCards
 
+  // Main-row cards are glove punch targets (lib/gloveHits)
+  const visibleCardIds = visibleCards.map((card) => card.id).join(' ')
+  React.useEffect(() => {
+    const cleanups = visibleCardIds.split(' ').map((id) => {
+      const el = cardRefs.current.get(id)
+      if (!el) return undefined
+      const unregister = registerGloveHitTarget(el, `card:${id}`)
+      if (reduced) return unregister
+      el.addEventListener('glove-hit', joltCard)
+      return () => {
+        unregister()
+        el.removeEventListener('glove-hit', joltCard)
+      }
+    })
+    return () => cleanups.forEach((cleanup) => cleanup?.())
+  }, [visibleCardIds, reduced])
+
   // Compute explicit expanded pill width for smooth Framer Motion interpolation.
   // `flex` shorthand can't be animated, so we compute the final width value
   // that the flex layout would produce and animate `width` directly.
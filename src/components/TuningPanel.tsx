@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react'
+import type { Settings, ShadowSettings, TuningPreset } from '../types'
+import { Z } from '../constants'
+import { SETTINGS_SCHEMA, SHADOW_SETTINGS_SCHEMA, type ColorRule, type NumberRule } from '../lib/settings'
+import { deletePreset, loadSavedPresets, savePreset, writePresetToUrl } from '../lib/presets'
+import { boxingGlovesPreset } from '../data/presets'
+import {
+  getSessionMode,
+  replaySession,
+  sessionUrl,
+  startRecording,
+  stopRecording,
+  subscribeSession,
+  type SessionLog,
+} from '../lib/sessionRecording'
+
+// =============================================================================
+// TUNING PANEL — dev-only live editor for every Settings / ShadowSettings field
+// Toggled with "T" (see App). Edits apply to the Scene immediately, the active
+// preset is mirrored into ?preset= so the URL can be pasted to someone else,
+// and named presets persist in localStorage. The Session section records glove
+// interaction and copies it as a replayable ?combo= link.
+// =============================================================================
+
+type Group<T> = { title: string; keys: (keyof T)[] }
+
+const SETTINGS_GROUPS: Group<Settings>[] = [
+  { title: 'Ball', keys: ['color', 'metalness', 'roughness', 'envMapIntensity', 'radius'] },
+  { title: 'Physics', keys: ['mass', 'restitution', 'friction', 'linearDamping', 'gravity', 'springStrength', 'scrollInertia', 'cursorSensitivity'] },
+  { title: 'String', keys: ['stringLength', 'stringThickness', 'stringColor', 'ropeDamping', 'breakingStrain'] },
+]
+
+const SHADOW_GROUPS: Group<ShadowSettings>[] = [
+  { title: 'Light', keys: ['lightX', 'lightY', 'lightZ'] },
+  { title: 'Shadow', keys: ['shadowMapSize', 'shadowCameraBounds', 'shadowCameraFar', 'shadowRadius', 'shadowBias', 'shadowOpacity'] },
+]
+
+const labelStyle: React.CSSProperties = { display: 'grid', gridTemplateColumns: '112px 1fr 56px', alignItems: 'center', gap: 8 }
+const buttonStyle: React.CSSProperties = { padding: '2px 8px', border: '1px solid #ccc', borderRadius: 4, background: '#fff', cursor: 'pointer' }
+
+function Field({ name, rule, value, onChange }: {
+  name: string
+  rule: NumberRule | ColorRule
+  value: number | string
+  onChange: (value: number | string) => void
+}) {
+  if (rule.type === 'color') {
+    return (
+      <label style={labelStyle}>
+        <span>{name}</span>
+        <input type="color" value={value as string} onChange={(e) => onChange(e.target.value)} />
+        <code>{value}</code>
+      </label>
+    )
+  }
+  const step = rule.step ?? (rule.max - rule.min) / 200
+  return (
+    <label style={labelStyle}>
+      <span>{name}</span>
+      <input
+        type="range"
+        min={rule.min}
+        max={rule.max}
+        step={step}
+        value={value as number}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+      <code>{Number((value as number).toPrecision(3))}</code>
+    </label>
+  )
+}
+
+function Section<T extends Settings | ShadowSettings>({ groups, schema, values, onChange }: {
+  groups: Group<T>[]
+  schema: { [K in keyof T]: NumberRule | ColorRule }
+  values: T
+  onChange: (next: T) => void
+}) {
+  return (
+    <>
+      {groups.map((group) => (
+        <fieldset key={group.title} style={{ border: 'none', padding: 0, margin: '0 0 12px', display: 'grid', gap: 4 }}>
+          <legend style={{ fontWeight: 600, marginBottom: 4 }}>{group.title}</legend>
+          {group.keys.map((key) => (
+            <Field
+              key={String(key)}
+              name={String(key)}
+              rule={schema[key]}
+              value={values[key] as number | string}
+              onChange={(value) => onChange({ ...values, [key]: value })}
+            />
+          ))}
+        </fieldset>
+      ))}
+    </>
+  )
+}
+
+export function TuningPanel({ preset, onChange, onClose }: {
+  preset: TuningPreset
+  onChange: (next: TuningPreset) => void
+  onClose: () => void
+}) {
+  const [saved, setSaved] = useState(loadSavedPresets)
+  const [name, setName] = useState('')
+  const [sessionMode, setSessionMode] = useState(getSessionMode)
+  const [lastSession, setLastSession] = useState<SessionLog | null>(null)
+
+  useEffect(() => subscribeSession(setSessionMode), [])
+
+  // Keep ?preset= in sync with what's on screen; the shipped preset needs no param
+  useEffect(() => {
+    writePresetToUrl(preset === boxingGlovesPreset ? null : preset)
+  }, [preset])
+
+  return (
+    <aside
+      aria-label="Glove tuning panel"
+      className="font-inter"
+      style={{
+        position: 'fixed',
+        top: 12,
+        right: 12,
+        width: 340,
+        maxHeight: 'calc(100vh - 24px)',
+        overflowY: 'auto',
+        padding: 12,
+        zIndex: Z.tuningPanel,
+        background: 'rgba(255, 255, 255, 0.95)',
+        border: '1px solid #ddd',
+        borderRadius: 8,
+        boxShadow: '0 4px 16px rgba(0, 0, 0, 0.12)',
+        fontSize: 11,
+        color: '#111',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <strong style={{ fontSize: 13 }}>Tuning</strong>
+        <div style={{ display: 'flex', gap: 4 }}>
+          <button type="button" style={buttonStyle} onClick={() => onChange(boxingGlovesPreset)}>Reset</button>
+          <button type="button" style={buttonStyle} onClick={() => navigator.clipboard?.writeText(window.location.href)}>Copy link</button>
+          <button type="button" style={buttonStyle} aria-label="Close tuning panel" onClick={onClose}>×</button>
+        </div>
+      </div>
+
+      <Section
+        groups={SETTINGS_GROUPS}
+        schema={SETTINGS_SCHEMA}
+        values={preset.settings}
+        onChange={(settings) => onChange({ ...preset, settings })}
+      />
+      <Section
+        groups={SHADOW_GROUPS}
+        schema={SHADOW_SETTINGS_SCHEMA}
+        values={preset.shadowSettings}
+        onChange={(shadowSettings) => onChange({ ...preset, shadowSettings })}
+      />
+
+      <fieldset style={{ border: 'none', padding: 0, margin: '0 0 12px', display: 'grid', gap: 4 }}>
+        <legend style={{ fontWeight: 600, marginBottom: 4 }}>Session</legend>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          {sessionMode === 'recording' ? (
+            <button type="button" style={buttonStyle} onClick={() => void stopRecording().then(setLastSession)}>Stop</button>
+          ) : (
+            <button type="button" style={buttonStyle} disabled={sessionMode === 'replaying'} onClick={startRecording}>Record</button>
+          )}
+          <button
+            type="button"
+            style={buttonStyle}
+            disabled={!lastSession || sessionMode !== 'idle'}
+            onClick={() => lastSession && replaySession(lastSession)}
+          >
+            Replay
+          </button>
+          <button
+            type="button"
+            style={buttonStyle}
+            disabled={!lastSession}
+            onClick={() => lastSession && navigator.clipboard?.writeText(sessionUrl(lastSession))}
+          >
+            Copy combo link
+          </button>
+          <span style={{ flex: 1, textAlign: 'right' }}>
+            {sessionMode !== 'idle' ? sessionMode : lastSession ? `${lastSession.inputs.length} inputs` : ''}
+          </span>
+        </div>
+      </fieldset>
+
+      <fieldset style={{ border: 'none', padding: 0, margin: 0, display: 'grid', gap: 4 }}>
+        <legend style={{ fontWeight: 600, marginBottom: 4 }}>Presets</legend>
+        <form
+          style={{ display: 'flex', gap: 4 }}
+          onSubmit={(e) => {
+            e.preventDefault()
+            const trimmed = name.trim()
+            if (!trimmed) return
+            setSaved(savePreset(trimmed, preset))
+            setName('')
+          }}
+        >
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Preset name"
+            style={{ flex: 1, padding: '2px 6px', border: '1px solid #ccc', borderRadius: 4 }}
+          />
+          <button type="submit" style={buttonStyle}>Save</button>
+        </form>
+        {Object.entries(saved).map(([presetName, value]) => (
+          <div key={presetName} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            <span style={{ flex: 1 }}>{presetName}</span>
+            <button type="button" style={buttonStyle} onClick={() => onChange(value)}>Load</button>
+            <button
+              type="button"
+              style={buttonStyle}
+              aria-label={`Delete preset ${presetName}`}
+              onClick={() => setSaved(deletePreset(presetName))}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </fieldset>
+    </aside>
+  )
+}
@@ -0,0 +1,146 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { useNycWeather } from '../hooks/useNycWeather'
+import { prefersReducedMotion } from '../hooks/useReducedMotion'
+import { getNycWeather, precipitationOf, windAccelAt } from '../lib/nycWeather'
+import { forEachGloveSphere } from '../lib/ropeTangle'
+import { mulberry32, seedFromString } from '../lib/random'
+
+// Volume the precipitation falls through, in the gloves' physics space
+const SPAN_X = 7
+const TOP = 5
+const BOTTOM = -4
+const NEAR_Z = 2.5
+const FAR_Z = -3
+
+const PRECIPITATION = {
+  rain: {
+    fallSpeed: 9,     // Terminal velocity, units/s
+    windDrift: 1.5,   // Drift speed per unit of wind acceleration
+    flutter: 0,       // Side-to-side wander, units/s
+    bounce: 0.2,      // Share of the impact speed kept off a glove — drops skid off
+    geometry: () => new THREE.BoxGeometry(0.012, 0.3, 0.012),
+    color: '#a9c4dd',
+    opacity: 0.45,
+  },
+  snow: {
+    fallSpeed: 1.1,
+    windDrift: 2.5,
+    flutter: 0.35,
+    bounce: 0,        // Flakes settle and slide rather than bounce
+    geometry: () => new THREE.IcosahedronGeometry(0.028, 0),
+    color: '#ffffff',
+    opacity: 0.9,
+  },
+} as const
+
+const _wind = new THREE.Vector3()
+const _p = new THREE.Vector3()
+const _v = new THREE.Vector3()
+const _n = new THREE.Vector3()
+
+// Instanced rain or snow falling past the gloves. Velocities chase the
+// fall speed plus the weather's wind drift; particles that enter a glove's
+// collision sphere are pushed to its surface and lose their inward speed.
+function Precipitation({ kind, count }: { kind: 'rain' | 'snow'; count: number }) {
+  const look = PRECIPITATION[kind]
+  const meshRef = useRef<THREE.InstancedMesh>(null)
+  const geometry = useMemo(() => look.geometry(), [look])
+  const material = useMemo(() => new THREE.MeshBasicMaterial({
+    color: look.color,
+    transparent: true,
+    opacity: look.opacity,
+    depthWrite: false,
+  }), [look])
+
+  useEffect(() => () => {
+    geometry.dispose()
+    material.dispose()
+  }, [geometry, material])
+
+  // Position (xyz), velocity (xyz) and a flutter phase per particle, laid out
+  // from a seeded generator so the first frame is the same on every mount
+  const state = useMemo(() => {
+    const random = mulberry32(seedFromString(kind))
+    const positions = new Float32Array(count * 3)
+    const velocities = new Float32Array(count * 3)
+    const phases = new Float32Array(count)
+    for (let i = 0; i < count; i++) {
+      positions[i * 3] = (random() * 2 - 1) * SPAN_X
+      positions[i * 3 + 1] = BOTTOM + random() * (TOP - BOTTOM)
+      positions[i * 3 + 2] = FAR_Z + random() * (NEAR_Z - FAR_Z)
+      velocities[i * 3 + 1] = -look.fallSpeed
+      phases[i] = random() * Math.PI * 2
+    }
+    return { positions, velocities, phases, random }
+  }, [count, kind, look])
+
+  useFrame(({ clock }, rawDelta) => {
+    const mesh = meshRef.current
+    if (!mesh) return
+    const delta = Math.min(rawDelta, 0.05)
+    const time = clock.elapsedTime
+    const chase = Math.min(1, delta * 3)
+    windAccelAt(getNycWeather(), time, _wind).multiplyScalar(look.windDrift)
+    const { positions, velocities, phases, random } = state
+    const matrices = mesh.instanceMatrix.array as Float32Array
+
+    for (let i = 0; i < count; i++) {
+      _p.fromArray(positions, i * 3)
+      _v.fromArray(velocities, i * 3)
+
+      const flutter = look.flutter * Math.sin(time * 1.3 + phases[i])
+      _v.x += (_wind.x + flutter - _v.x) * chase
+      _v.y += (-look.fallSpeed - _v.y) * chase
+      _v.z += (_wind.z - _v.z) * chase
+      _p.addScaledVector(_v, delta)
+
+      forEachGloveSphere((center, radius) => {
+        _n.subVectors(_p, center)
+        const distance = _n.length()
+        if (distance >= radius || distance < 1e-6) return
+        _n.divideScalar(distance)
+        _p.copy(center).addScaledVector(_n, radius)
+        const inward = _v.dot(_n)
+        if (inward < 0) _v.addScaledVector(_n, -inward * (1 + look.bounce))
+      })
+
+      // Fell out of the volume (or blew out the side) → respawn along the top
+      if (_p.y < BOTTOM || Math.abs(_p.x) > SPAN_X) {
+        _p.set((random() * 2 - 1) * SPAN_X, TOP + random(), FAR_Z + random() * (NEAR_Z - FAR_Z))
+        _v.set(_wind.x, -look.fallSpeed, _wind.z)
+      }
+      _p.toArray(positions, i * 3)
+      _v.toArray(velocities, i * 3)
+
+      // Rotation about Z so rain streaks line up with their velocity, then translate
+      const angle = kind === 'rain' ? Math.atan2(_v.x, -_v.y) : 0
+      const c = Math.cos(angle)
+      const s = Math.sin(angle)
+      const m = i * 16
+      matrices[m] = c; matrices[m + 1] = s; matrices[m + 2] = 0; matrices[m + 3] = 0
+      matrices[m + 4] = -s; matrices[m + 5] = c; matrices[m + 6] = 0; matrices[m + 7] = 0
+      matrices[m + 8] = 0; matrices[m + 9] = 0; matrices[m + 10] = 1; matrices[m + 11] = 0
+      matrices[m + 12] = _p.x; matrices[m + 13] = _p.y; matrices[m + 14] = _p.z; matrices[m + 15] = 1
+    }
+    mesh.instanceMatrix.needsUpdate = true
+  })
+
+  return <instancedMesh ref={meshRef} args={[geometry, material, count]} frustumCulled={false} />
+}
+
+/**
+ * Rain or snow for the current NYC weather (lib/nycWeather). Mount it in the
+ * same space as HangingSpheres so the particles meet the gloves. Nothing falls
+ * under prefers-reduced-motion or on tiers without a particle budget.
+ */
+export function WeatherParticles({ maxCount }: { maxCount: number }) {
+  const weather = useNycWeather()
+  const reducedMotion = useMemo(() => prefersReducedMotion(), [])
+  const { kind, intensity } = precipitationOf(weather)
+  const count = Math.round(maxCount * intensity)
+  if (!kind || count === 0 || reducedMotion) return null
+  // Remount on a new kind or budget — the buffers are sized once
+  return <Precipitation key={`${kind}-${count}`} kind={kind} count={count} />
+}
@@ -2,6 +2,7 @@
 export * from './animation'
 export * from './breakpoints'
 export * from './elevations'
+export * from './physics'
 export * from './spacing'
 export * from './themes'
 export * from './typography'
@@ -0,0 +1,9 @@
+// =============================================================================
+// PHYSICS — Shared simulation constants for the hanging glove scene
+// =============================================================================
+
+/** Fixed Rapier step (seconds). Everything that drives the gloves integrates at this rate. */
+export const PHYSICS_TIMESTEP = 1 / 60
+
+/** Tap-punch: seconds from the tap to full extension (ease-out cubic — fast off the mark) */
+export const JAB_DURATION = 0.12
@@ -258,6 +258,13 @@ export const backdropColors = {
   },
 }
 
+// PETEY graffiti ink — the SVG sits at 10–20% opacity, so the dark canvases
+// need a light ink for it to read at all
+export const graffitiFills = {
+  light: '#888888',
+  dark: '#C8C8D8',
+}
+
 // Helper to get styles based on theme
 export const getVariantStyles = (themeMode: 'light' | 'inverted' | 'dark' | 'darkInverted'): VariantStyles => {
   return (themeMode === 'dark' || themeMode === 'darkInverted') ? variantStylesDark : variantStylesLight
@@ -23,6 +23,12 @@ export const Z = {
   /** Expanded card portal (above everything except cursor) */
   expandedCard: 9999,
 
+  /** Capture toolbar (development, or ?capture) */
+  captureBar: 99980,
+
+  /** Tuning panel (development only, toggled with T) */
+  tuningPanel: 99990,
+
   /** Custom cursor (always on top) */
   cursor: 99998,
 
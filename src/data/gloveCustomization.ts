@@ -0,0 +1,34 @@
+import type { GloveCustomization, GloveFinish } from '../types'
+
+// Stock look — the colors baked into the GLB textures. A leather or cuff
+// color equal to these leaves the authored texture untouched (no recolor).
+export const defaultGloveCustomization: GloveCustomization = {
+  leather: '#e60012',
+  cuff: '#8c8c8c',
+  monogram: '',
+  finish: 'satin',
+}
+
+export const LEATHER_COLORWAYS: { name: string; color: string }[] = [
+  { name: 'Flag red', color: defaultGloveCustomization.leather },
+  { name: 'Midnight', color: '#1b1b1f' },
+  { name: 'Royal blue', color: '#1f4fd6' },
+  { name: 'Gold', color: '#c8a03a' },
+  { name: 'Forest', color: '#1f6b3a' },
+  { name: 'Bone', color: '#ece5d8' },
+]
+
+export const CUFF_COLORS: { name: string; color: string }[] = [
+  { name: 'Stock gray', color: defaultGloveCustomization.cuff },
+  { name: 'White', color: '#f5f5f5' },
+  { name: 'Black', color: '#161616' },
+  { name: 'Gold', color: '#c8a03a' },
+  { name: 'Red', color: '#c3232d' },
+]
+
+// Finishes scale the Settings material values (1 = as authored, like Settings)
+export const GLOVE_FINISHES: Record<GloveFinish, { label: string; roughness: number; envMapIntensity: number }> = {
+  matte: { label: 'Matte', roughness: 1.6, envMapIntensity: 0.5 },
+  satin: { label: 'Satin', roughness: 1, envMapIntensity: 1 },
+  patent: { label: 'Patent', roughness: 0.25, envMapIntensity: 1.8 },
+}
@@ -0,0 +1,55 @@
+import type { ColliderRecipe, HangingSceneManifest } from '../types'
+import leftGloveModelUrl from '../assets/gloveLEFT.glb?url'
+import rightGloveModelUrl from '../assets/gloveRIGHT.glb?url'
+
+// Right-hand boxing glove recipe — the left glove uses it mirrored
+const gloveColliders: ColliderRecipe[] = [
+  // Main glove body (rectangular box)
+  { shape: 'cuboid', halfExtents: [1, 1.5, 1] },
+  // Knuckle area (sphere, centered Z to avoid back-facing bias)
+  { shape: 'ball', radius: 0.9, position: [0, -0.5, 0] },
+  // Thumb
+  { shape: 'cuboid', halfExtents: [0.4, 0.6, 0.4], position: [1.2, -0.3, 0], rotation: [0, 0, 0.3] },
+  // Cuff (white band at wrist)
+  { shape: 'cylinder', halfHeight: 0.4, radius: 1.15, position: [0, 1.3, 0] },
+]
+
+export const hangingScene: HangingSceneManifest = {
+  ropeOrigin: [0, 7.2, 0],
+  objects: [
+    // Left glove - offset left and slightly forward, drops after right
+    {
+      id: 'glove-left',
+      label: 'Left glove',
+      modelUrl: leftGloveModelUrl,
+      modelScale: 0.75,
+      modelOffset: [0, 1.5, 0],
+      tintMeshes: ['gloves'], // Leather only — laces and eyelets keep their color
+      colliders: gloveColliders,
+      anchor: [-0.4, 3.2, 0.15],
+      ropeAttach: [-0.15, 1.7, 0.3],
+      ropeLengthOffset: 0.25,
+      dropDelay: 700,
+      yRotation: Math.PI + Math.PI / 6 - Math.PI / 4,
+      mirrored: true,
+      scrollSway: 'left',
+    },
+    // Right glove - offset right and slightly back, with extended cord
+    {
+      id: 'glove-right',
+      label: 'Right glove',
+      modelUrl: rightGloveModelUrl,
+      modelScale: 0.75,
+      modelOffset: [0, 1.5, 0],
+      tintMeshes: ['gloves'], // Leather only — laces and eyelets keep their color
+      colliders: gloveColliders,
+      anchor: [0.4, 3.2, -0.15],
+      ropeAttach: [-0.15, 1.7, 0.3], // Stitching area on the upper front
+      ropeLengthOffset: 0.7,
+      dropDelay: 600,
+      yRotation: Math.PI + (45 * Math.PI / 180),
+      mirrored: false,
+      scrollSway: 'right',
+    },
+  ],
+}
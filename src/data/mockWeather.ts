@@ -0,0 +1,16 @@
+import type { WeatherReading } from '../types'
+
+// Offline weather presets — preview any condition with ?weather=<name>
+// (lib/nycWeather swaps the Open-Meteo provider for these). Codes are WMO.
+export const MOCK_WEATHER: Record<string, WeatherReading> = {
+  clear: { temp: 68, weatherCode: 0, windSpeed: 4, windDirection: 270, precipitation: 0 },
+  cloudy: { temp: 61, weatherCode: 3, windSpeed: 8, windDirection: 240, precipitation: 0 },
+  fog: { temp: 52, weatherCode: 45, windSpeed: 2, windDirection: 180, precipitation: 0 },
+  drizzle: { temp: 55, weatherCode: 53, windSpeed: 6, windDirection: 200, precipitation: 0.4 },
+  rain: { temp: 57, weatherCode: 63, windSpeed: 12, windDirection: 220, precipitation: 3 },
+  storm: { temp: 74, weatherCode: 95, windSpeed: 28, windDirection: 250, precipitation: 9 },
+  snow: { temp: 29, weatherCode: 73, windSpeed: 7, windDirection: 320, precipitation: 1 },
+  blizzard: { temp: 18, weatherCode: 75, windSpeed: 35, windDirection: 20, precipitation: 3 },
+  windy: { temp: 63, weatherCode: 1, windSpeed: 30, windDirection: 290, precipitation: 0 },
+  frigid: { temp: 9, weatherCode: 0, windSpeed: 14, windDirection: 330, precipitation: 0 },
+}
@@ -0,0 +1,40 @@
+import type { TuningPreset } from '../types'
+import { validatePreset } from '../lib/presets'
+
+// Boxing Gloves preset — what ships. Material fields are multipliers on the
+// baked GLB textures: white / 1 = as authored. Validated like any other preset
+// (out-of-range values are clamped with a warning). The tuning panel's "Reset"
+// returns here.
+export const boxingGlovesPreset: TuningPreset = validatePreset({
+  settings: {
+    color: '#ffffff',
+    metalness: 1,
+    roughness: 1,
+    envMapIntensity: 1,
+    radius: 0.525,
+    mass: 1.2,
+    restitution: 0.6,
+    friction: 0.1,
+    linearDamping: 1.0,
+    gravity: -9.81,
+    springStrength: 5,     // Restoring pull toward the natural hang — snappy drop without distorting the fall path
+    scrollInertia: 1,      // How hard the gloves lag/overshoot when page scroll speeds up or stops
+    cursorSensitivity: 0.5, // How slow a cursor swipe can be and still bat a glove (0 = cursor never knocks)
+    stringLength: 2.5,
+    stringThickness: 0.028,
+    stringColor: '#2a2a2a',
+    ropeDamping: 0.98,     // Rope velocity kept per physics step
+    breakingStrain: 25,    // Fling / string-catch speed (units/s) that snaps the rope (0 = unbreakable)
+  },
+  shadowSettings: {
+    lightX: 0,
+    lightY: 2.5,
+    lightZ: 10,
+    shadowMapSize: 2048,
+    shadowCameraBounds: 8,
+    shadowCameraFar: 30,
+    shadowRadius: 4,
+    shadowBias: -0.0001,
+    shadowOpacity: 0.08,
+  },
+})
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react'
+import type { GloveCustomization } from '../types'
+import { getGloveCustomization, subscribeGloveCustomization } from '../lib/gloveCustomization'
+
+/**
+ * React hook — the visitor's glove customization (see lib/gloveCustomization).
+ * Works on both sides of the Canvas; re-renders whenever the customizer changes it.
+ */
+export function useGloveCustomization(): GloveCustomization {
+  return useSyncExternalStore(subscribeGloveCustomization, getGloveCustomization, getGloveCustomization)
+}
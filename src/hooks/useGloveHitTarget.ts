@@ -0,0 +1,28 @@
+import { useCallback } from 'react'
+import { registerGloveHitTarget, type GloveHitDetail } from '../lib/gloveHits'
+
+/**
+ * React hook — returns a callback ref that registers its element as somewhere
+ * a glove punch can land (see lib/gloveHits), and calls `onHit` when one does.
+ * A callback ref (with React 19 cleanup) rather than a RefObject, so elements
+ * that mount conditionally register whenever they appear.
+ */
+export function useGloveHitTarget(
+  name: string,
+  onHit?: (detail: GloveHitDetail, element: Element) => void
+): (element: Element | null) => (() => void) | undefined {
+  return useCallback((element: Element | null) => {
+    if (!element) return
+    const unregister = registerGloveHitTarget(element, name)
+    if (!onHit) return unregister
+
+    const handleHit = (e: CustomEvent<GloveHitDetail>) => {
+      if (e.target === element) onHit(e.detail, element)
+    }
+    element.addEventListener('glove-hit', handleHit)
+    return () => {
+      unregister()
+      element.removeEventListener('glove-hit', handleHit)
+    }
+  }, [name, onHit])
+}
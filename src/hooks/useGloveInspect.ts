@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { getInspectedGlove, subscribeGloveInspect } from '../lib/gloveInspect'
+
+/** React hook — manifest id of the glove in inspect mode, or null (see lib/gloveInspect). */
+export function useInspectedGlove(): string | null {
+  return useSyncExternalStore(subscribeGloveInspect, getInspectedGlove, getInspectedGlove)
+}
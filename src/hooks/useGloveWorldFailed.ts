@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { hasGloveWorldFailed, subscribeGloveWorldFailure } from '../lib/gloveWorld'
+
+/** React hook — true once the glove physics worker has failed to start (see lib/gloveWorld). */
+export function useGloveWorldFailed(): boolean {
+  return useSyncExternalStore(subscribeGloveWorldFailure, hasGloveWorldFailed, hasGloveWorldFailed)
+}
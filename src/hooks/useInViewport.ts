@@ -0,0 +1,32 @@
+import { useEffect, useState, type RefObject } from 'react'
+
+/**
+ * React hook — whether the element is on screen in a visible tab.
+ * `rootMargin` grows the viewport so callers can wake up just before the
+ * element scrolls in. Starts `true` so nothing waits on the first observation.
+ */
+export function useInViewport(ref: RefObject<Element | null>, rootMargin = '0px'): boolean {
+  const [intersecting, setIntersecting] = useState(true)
+  const [tabVisible, setTabVisible] = useState(() =>
+    typeof document !== 'undefined' ? !document.hidden : true
+  )
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || typeof IntersectionObserver === 'undefined') return
+    const observer = new IntersectionObserver(
+      ([entry]) => setIntersecting(entry.isIntersecting),
+      { rootMargin }
+    )
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref, rootMargin])
+
+  useEffect(() => {
+    const handler = () => setTabVisible(!document.hidden)
+    document.addEventListener('visibilitychange', handler)
+    return () => document.removeEventListener('visibilitychange', handler)
+  }, [])
+
+  return intersecting && tabVisible
+}
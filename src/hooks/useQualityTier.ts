@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react'
+import { QUALITY_TIERS, getQualityTierIndex, subscribeQualityTier, type QualityTier } from '../lib/quality'
+
+/**
+ * React hook — the rendering quality tier currently chosen by the Canvas
+ * governor (see Scene). Re-renders when the governor steps up or down.
+ */
+export function useQualityTier(): QualityTier {
+  const index = useSyncExternalStore(subscribeQualityTier, getQualityTierIndex, getQualityTierIndex)
+  return QUALITY_TIERS[index]
+}
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react'
+import type { ThemeMode, ThemePreference } from '../types'
+import { getThemeMode, getThemePreference, subscribeTheme } from '../lib/theme'
+
+/**
+ * React hook — the resolved page theme (see lib/theme). Follows the OS while the
+ * visitor hasn't picked one, so this re-renders on prefers-color-scheme changes.
+ */
+export function useThemeMode(): ThemeMode {
+  return useSyncExternalStore(subscribeTheme, getThemeMode, getThemeMode)
+}
+
+/** React hook — the visitor's choice behind useThemeMode ('system', 'light' or 'dark'). */
+export function useThemePreference(): ThemePreference {
+  return useSyncExternalStore(subscribeTheme, getThemePreference, getThemePreference)
+}
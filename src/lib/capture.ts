@@ -0,0 +1,189 @@
+import type * as THREE from 'three'
+
+// =============================================================================
+// CAPTURE — PNG snapshots and short WebM clips of the glove hero
+// Scene registers its renderer from inside the Canvas (like the glove
+// controllers). Snapshots re-render one frame at 2× and read it back in the
+// same task — the drawing buffer is still intact then, so preserveDrawingBuffer
+// stays off. Composited snapshots paint the page background and any element
+// marked data-capture-background (the graffiti) underneath the gloves. Clips
+// record the canvas stream with MediaRecorder.
+// =============================================================================
+
+export interface CaptureTarget {
+  gl: THREE.WebGLRenderer
+  scene: THREE.Scene
+  camera: THREE.Camera
+}
+
+export interface ClipRecording {
+  /** Resolves with the WebM once recording has run for at least MIN_CLIP_SECONDS */
+  stop: () => Promise<Blob>
+}
+
+const SNAPSHOT_SCALE = 2
+export const MIN_CLIP_SECONDS = 3
+export const MAX_CLIP_SECONDS = 6
+const CLIP_FPS = 60
+const CLIP_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+let target: CaptureTarget | null = null
+
+export function registerCaptureTarget(next: CaptureTarget): () => void {
+  target = next
+  return () => {
+    if (target === next) target = null
+  }
+}
+
+/** The capture toolbar ships in production too, behind ?capture (always on in development). */
+export function isCaptureRequested(): boolean {
+  if (typeof window === 'undefined') return false
+  return import.meta.env.DEV || new URLSearchParams(window.location.search).has('capture')
+}
+
+export function isClipSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && CLIP_TYPES.some((type) => MediaRecorder.isTypeSupported(type))
+}
+
+/** Save a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/** Timestamped file name, e.g. gloves-2026-10-18-142501.png */
+export function captureFilename(extension: string): string {
+  const stamp = new Date().toISOString().slice(0, 19).replace('T', '-').replace(/:/g, '')
+  return `gloves-${stamp}.${extension}`
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('[capture] canvas is empty'))), 'image/png')
+  })
+}
+
+// Opacity is inherited visually, not through CSS — multiply it up the tree
+function effectiveOpacity(element: Element): number {
+  let opacity = 1
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    opacity *= Number(getComputedStyle(node).opacity)
+  }
+  return opacity
+}
+
+async function loadSvg(svg: Element): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' }))
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    return image
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+// Page background + capture-background elements, laid out as they sit behind the canvas.
+// Elements are drawn at their bounding boxes — CSS 3D tilt is not reproduced.
+async function drawBackground(ctx: CanvasRenderingContext2D, canvasRect: DOMRect, scale: number) {
+  ctx.fillStyle = getComputedStyle(document.body).backgroundColor || '#ffffff'
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+
+  for (const element of document.querySelectorAll('[data-capture-background]')) {
+    const rect = element.getBoundingClientRect()
+    const opacity = effectiveOpacity(element)
+    if (rect.width === 0 || rect.height === 0 || opacity === 0) continue
+    if (rect.right < canvasRect.left || rect.left > canvasRect.right || rect.bottom < canvasRect.top || rect.top > canvasRect.bottom) continue
+    try {
+      const image = await loadSvg(element)
+      ctx.globalAlpha = opacity
+      ctx.drawImage(
+        image,
+        (rect.left - canvasRect.left) * scale,
+        (rect.top - canvasRect.top) * scale,
+        rect.width * scale,
+        rect.height * scale
+      )
+      ctx.globalAlpha = 1
+    } catch {
+      console.warn('[capture] could not rasterize a background element — skipping it')
+    }
+  }
+}
+
+/**
+ * PNG of the hero at 2×. `transparent` keeps only the gloves (alpha background);
+ * otherwise the page background and graffiti are composited underneath.
+ */
+export async function captureSnapshot({ transparent = false } = {}): Promise<Blob> {
+  if (!target) throw new Error('[capture] the glove canvas is not mounted')
+  const { gl, scene, camera } = target
+  const canvasRect = gl.domElement.getBoundingClientRect()
+
+  // Render one frame at 2× and copy it out before the browser composites
+  const frame = document.createElement('canvas')
+  frame.width = Math.round(canvasRect.width * SNAPSHOT_SCALE)
+  frame.height = Math.round(canvasRect.height * SNAPSHOT_SCALE)
+  const previousPixelRatio = gl.getPixelRatio()
+  gl.setPixelRatio(SNAPSHOT_SCALE)
+  gl.render(scene, camera)
+  frame.getContext('2d')!.drawImage(gl.domElement, 0, 0, frame.width, frame.height)
+  gl.setPixelRatio(previousPixelRatio)
+  if (transparent) return canvasToBlob(frame)
+
+  const output = document.createElement('canvas')
+  output.width = frame.width
+  output.height = frame.height
+  const ctx = output.getContext('2d')!
+  await drawBackground(ctx, canvasRect, SNAPSHOT_SCALE)
+  ctx.drawImage(frame, 0, 0)
+  return canvasToBlob(output)
+}
+
+/**
+ * Start recording the canvas. Stops itself after MAX_CLIP_SECONDS (resolving
+ * `stop()` early is fine — it waits out MIN_CLIP_SECONDS first). Returns null
+ * when the canvas isn't mounted or MediaRecorder can't write WebM.
+ */
+export function startClip(onAutoStop?: (blob: Blob) => void): ClipRecording | null {
+  if (!target || !isClipSupported()) return null
+  const mimeType = CLIP_TYPES.find((type) => MediaRecorder.isTypeSupported(type))!
+  const stream = target.gl.domElement.captureStream(CLIP_FPS)
+  const recorder = new MediaRecorder(stream, { mimeType })
+  const chunks: Blob[] = []
+  const startedAt = performance.now()
+  let stopRequested = false
+
+  const finished = new Promise<Blob>((resolve) => {
+    recorder.addEventListener('dataavailable', (e) => chunks.push(e.data))
+    recorder.addEventListener('stop', () => {
+      stream.getTracks().forEach((track) => track.stop())
+      resolve(new Blob(chunks, { type: 'video/webm' }))
+    })
+  })
+
+  const autoStop = setTimeout(() => {
+    if (recorder.state === 'recording') recorder.stop()
+    if (onAutoStop && !stopRequested) finished.then(onAutoStop)
+  }, MAX_CLIP_SECONDS * 1000)
+
+  recorder.start()
+
+  return {
+    stop: () => {
+      stopRequested = true
+      const remaining = MIN_CLIP_SECONDS * 1000 - (performance.now() - startedAt)
+      setTimeout(() => {
+        clearTimeout(autoStop)
+        if (recorder.state === 'recording') recorder.stop()
+      }, Math.max(0, remaining))
+      return finished
+    },
+  }
+}
@@ -0,0 +1,27 @@
+// =============================================================================
+// CURSOR IMPACT — a cursor swipe batting a glove, for the DOM cursor
+// HangingSpheres hears the knock from the physics worker; CustomCursor squashes
+// on it. A swipe touches the glove for several physics steps, so knocks closer
+// together than the cooldown count as one.
+// =============================================================================
+
+const COOLDOWN_MS = 200
+
+let lastImpact = -Infinity
+const listeners = new Set<(strength: number) => void>()
+
+/** Report a knock — `strength` 0–1 (clamped) */
+export function emitCursorImpact(strength: number): void {
+  const now = performance.now()
+  if (now - lastImpact < COOLDOWN_MS) return
+  lastImpact = now
+  const clamped = Math.min(1, Math.max(0, strength))
+  listeners.forEach((fn) => fn(clamped))
+}
+
+export function subscribeCursorImpact(fn: (strength: number) => void): () => void {
+  listeners.add(fn)
+  return () => {
+    listeners.delete(fn)
+  }
+}
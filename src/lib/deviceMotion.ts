@@ -0,0 +1,194 @@
+// =============================================================================
+// DEVICE MOTION — opt-in phone tilt + shake input for the glove scene
+// A MotionSource turns sensor events into normalized tilt (-1..1 on each axis,
+// relative to how the phone was held when enabled) and shake impulses (0–1).
+// The real source reads DeviceOrientation/DeviceMotion; the mock source drives
+// the same pipeline from the mouse and the "S" key so it can be built on a
+// desktop (enable with ?sensor=mock). Consumers subscribe — App feeds tilt into
+// mousePositionRef, the physics tilts gravity, each glove listens for shakes.
+// =============================================================================
+
+export interface MotionEmitter {
+  /** Raw orientation in degrees — beta: front/back, gamma: left/right */
+  orientation: (beta: number, gamma: number) => void
+  /** A detected shake, strength 0–1 */
+  shake: (strength: number) => void
+}
+
+export interface MotionSource {
+  /** Start emitting; returns a stop function */
+  start: (emit: MotionEmitter) => () => void
+}
+
+export type MotionPermission = 'granted' | 'denied' | 'unsupported'
+
+/** Degrees of tilt (from the calibrated rest pose) that map to full tilt */
+const TILT_RANGE = 30
+/** Linear acceleration (m/s², gravity excluded) that counts as a shake */
+const SHAKE_THRESHOLD = 14
+/** Acceleration at which a shake reaches full strength */
+const SHAKE_FULL = 35
+const SHAKE_COOLDOWN_MS = 500
+
+/** Normalized device tilt, read every frame by the physics (x: right, y: toward the viewer) */
+export const deviceTiltRef = { current: { x: 0, y: 0 } }
+
+let stopSource: (() => void) | null = null
+let rest: { beta: number; gamma: number } | null = null
+let lastShake = 0
+const enabledListeners = new Set<(enabled: boolean) => void>()
+const tiltListeners = new Set<(x: number, y: number) => void>()
+const shakeListeners = new Set<(strength: number) => void>()
+
+type PermissionedEvent = { requestPermission?: () => Promise<'granted' | 'denied'> }
+
+function clamp(v: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, v))
+}
+
+/** Rotate raw beta/gamma into screen axes so landscape tilts the right way. */
+function toScreenAxes(beta: number, gamma: number): [number, number] {
+  const angle = typeof screen !== 'undefined' && screen.orientation ? screen.orientation.angle : 0
+  if (angle === 90) return [beta, -gamma]
+  if (angle === 270 || angle === -90) return [-beta, gamma]
+  return [gamma, beta]
+}
+
+const emitter: MotionEmitter = {
+  orientation(beta, gamma) {
+    const [x, y] = toScreenAxes(beta, gamma)
+    // First reading after enabling is "level" — people hold phones at an angle
+    if (!rest) rest = { beta: y, gamma: x }
+    const tiltX = clamp((x - rest.gamma) / TILT_RANGE, -1, 1)
+    const tiltY = clamp((y - rest.beta) / TILT_RANGE, -1, 1)
+    deviceTiltRef.current = { x: tiltX, y: tiltY }
+    tiltListeners.forEach((fn) => fn(tiltX, tiltY))
+  },
+  shake(strength) {
+    const now = performance.now()
+    if (now - lastShake < SHAKE_COOLDOWN_MS) return
+    lastShake = now
+    shakeListeners.forEach((fn) => fn(clamp(strength, 0, 1)))
+  },
+}
+
+/** DeviceOrientation/DeviceMotion from the phone's sensors. */
+export function createDeviceMotionSource(): MotionSource {
+  return {
+    start(emit) {
+      const handleOrientation = (e: DeviceOrientationEvent) => {
+        if (e.beta !== null && e.gamma !== null) emit.orientation(e.beta, e.gamma)
+      }
+      const handleMotion = (e: DeviceMotionEvent) => {
+        const a = e.acceleration
+        if (!a || a.x === null || a.y === null || a.z === null) return
+        const magnitude = Math.hypot(a.x, a.y, a.z)
+        if (magnitude > SHAKE_THRESHOLD) emit.shake(magnitude / SHAKE_FULL)
+      }
+      window.addEventListener('deviceorientation', handleOrientation)
+      window.addEventListener('devicemotion', handleMotion)
+      return () => {
+        window.removeEventListener('deviceorientation', handleOrientation)
+        window.removeEventListener('devicemotion', handleMotion)
+      }
+    },
+  }
+}
+
+/** Desktop stand-in: the mouse tilts the "phone" (±30°), "S" shakes it. */
+export function createMockMotionSource(): MotionSource {
+  return {
+    start(emit) {
+      emit.orientation(45, 0) // Calibrate to a typical hand-held pose
+      const handleMove = (e: MouseEvent) => {
+        const gamma = (e.clientX / window.innerWidth - 0.5) * 2 * TILT_RANGE
+        const beta = 45 + (e.clientY / window.innerHeight - 0.5) * 2 * TILT_RANGE
+        emit.orientation(beta, gamma)
+      }
+      const handleKey = (e: KeyboardEvent) => {
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+        if (e.key === 's' || e.key === 'S') emit.shake(0.8)
+      }
+      window.addEventListener('mousemove', handleMove)
+      window.addEventListener('keydown', handleKey)
+      return () => {
+        window.removeEventListener('mousemove', handleMove)
+        window.removeEventListener('keydown', handleKey)
+      }
+    },
+  }
+}
+
+/** ?sensor=mock — use the mock source instead of the real sensors */
+export function isMockMotionRequested(): boolean {
+  if (typeof window === 'undefined') return false
+  return new URLSearchParams(window.location.search).get('sensor') === 'mock'
+}
+
+/** Sensors exist (or the mock was requested) and the device is touch-first. */
+export function isMotionSupported(): boolean {
+  if (typeof window === 'undefined') return false
+  if (isMockMotionRequested()) return true
+  return 'DeviceOrientationEvent' in window && window.matchMedia('(pointer: coarse)').matches
+}
+
+/**
+ * iOS 13+ gates sensors behind requestPermission(), which must be called from
+ * a user gesture. Other browsers grant implicitly.
+ */
+export async function requestMotionPermission(): Promise<MotionPermission> {
+  if (isMockMotionRequested()) return 'granted'
+  if (typeof window === 'undefined' || !('DeviceOrientationEvent' in window)) return 'unsupported'
+  const orientation = DeviceOrientationEvent as unknown as PermissionedEvent
+  const motion = (typeof DeviceMotionEvent !== 'undefined' ? DeviceMotionEvent : {}) as unknown as PermissionedEvent
+  try {
+    const results = await Promise.all([
+      orientation.requestPermission?.() ?? 'granted',
+      motion.requestPermission?.() ?? 'granted',
+    ])
+    return results.every((r) => r === 'granted') ? 'granted' : 'denied'
+  } catch {
+    return 'denied'
+  }
+}
+
+export function isMotionEnabled(): boolean {
+  return stopSource !== null
+}
+
+export function enableMotion(source: MotionSource = isMockMotionRequested() ? createMockMotionSource() : createDeviceMotionSource()): void {
+  if (stopSource) return
+  rest = null
+  stopSource = source.start(emitter)
+  enabledListeners.forEach((fn) => fn(true))
+}
+
+export function disableMotion(): void {
+  if (!stopSource) return
+  stopSource()
+  stopSource = null
+  deviceTiltRef.current = { x: 0, y: 0 }
+  tiltListeners.forEach((fn) => fn(0, 0))
+  enabledListeners.forEach((fn) => fn(false))
+}
+
+export function subscribeMotionEnabled(fn: (enabled: boolean) => void): () => void {
+  enabledListeners.add(fn)
+  return () => {
+    enabledListeners.delete(fn)
+  }
+}
+
+export function subscribeTilt(fn: (x: number, y: number) => void): () => void {
+  tiltListeners.add(fn)
+  return () => {
+    tiltListeners.delete(fn)
+  }
+}
+
+export function subscribeShake(fn: (strength: number) => void): () => void {
+  shakeListeners.add(fn)
+  return () => {
+    shakeListeners.delete(fn)
+  }
+}
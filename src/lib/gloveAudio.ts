@@ -0,0 +1,198 @@
+// =============================================================================
+// GLOVE AUDIO — procedural Web Audio for the hanging gloves
+// Everything is synthesized (no samples): leather thumps from filtered noise +
+// a pitched body, rope creaks from a wobbling resonant saw, whooshes from swept
+// bandpassed noise. Muted by default; the AudioContext is only created once the
+// visitor unmutes (which is a user gesture, so autoplay policies are satisfied).
+// Haptics ride the same toggle so touch devices never buzz unexpectedly.
+// =============================================================================
+
+/** Minimum gap between thumps — both gloves report the same contact */
+const THUMP_COOLDOWN_MS = 70
+const CREAK_COOLDOWN_MS = 180
+const WHOOSH_COOLDOWN_MS = 250
+
+/** Impacts at or above this strength (0–1) also fire a vibration pulse */
+const HAPTIC_THRESHOLD = 0.45
+
+let muted = true
+let ctx: AudioContext | null = null
+let master: GainNode | null = null
+let noiseBuffer: AudioBuffer | null = null
+const lastPlayed = { thump: 0, creak: 0, whoosh: 0 }
+const listeners = new Set<(muted: boolean) => void>()
+
+function clamp01(v: number) {
+  return Math.max(0, Math.min(1, v))
+}
+
+function ensureContext(): AudioContext | null {
+  if (ctx) return ctx
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null
+  ctx = new AudioContext()
+  master = ctx.createGain()
+  master.gain.value = 0.6
+  master.connect(ctx.destination)
+
+  // One second of white noise, reused by every voice
+  noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate)
+  const data = noiseBuffer.getChannelData(0)
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1
+  return ctx
+}
+
+/** Returns a panner wired to the master bus, or null when audio is unavailable/muted. */
+function voice(pan: number): { ac: AudioContext; out: StereoPannerNode } | null {
+  if (muted || !ctx || !master || ctx.state !== 'running') return null
+  const out = ctx.createStereoPanner()
+  out.pan.value = Math.max(-1, Math.min(1, pan))
+  out.connect(master)
+  return { ac: ctx, out }
+}
+
+function noiseSource(ac: AudioContext): AudioBufferSourceNode {
+  const src = ac.createBufferSource()
+  src.buffer = noiseBuffer
+  return src
+}
+
+function cooledDown(kind: keyof typeof lastPlayed, cooldownMs: number): boolean {
+  const now = performance.now()
+  if (now - lastPlayed[kind] < cooldownMs) return false
+  lastPlayed[kind] = now
+  return true
+}
+
+export function isGloveAudioMuted(): boolean {
+  return muted
+}
+
+export function setGloveAudioMuted(next: boolean): void {
+  muted = next
+  if (!muted) {
+    ensureContext()?.resume()
+  } else {
+    ctx?.suspend()
+  }
+  listeners.forEach((fn) => fn(muted))
+}
+
+export function subscribeGloveAudio(fn: (muted: boolean) => void): () => void {
+  listeners.add(fn)
+  return () => {
+    listeners.delete(fn)
+  }
+}
+
+/** Short vibration pulse on hard impacts (touch devices only, respects the toggle). */
+function haptic(strength: number) {
+  if (muted || strength < HAPTIC_THRESHOLD) return
+  if (typeof navigator === 'undefined' || typeof navigator.vibrate !== 'function') return
+  if (!window.matchMedia('(pointer: coarse)').matches) return
+  navigator.vibrate(Math.round(10 + strength * 25))
+}
+
+/**
+ * Leather-on-leather thump. `strength` (0–1) scales loudness and lowers pitch
+ * slightly — harder hits sound heavier. `pan` is -1 (left) to 1 (right).
+ */
+export function playThump(strength: number, pan: number): void {
+  const s = clamp01(strength)
+  if (s < 0.02 || !cooledDown('thump', THUMP_COOLDOWN_MS)) return
+  haptic(s)
+  const v = voice(pan)
+  if (!v) return
+  const { ac, out } = v
+  const t0 = ac.currentTime
+
+  // Body — pitched sine dropping fast, the "weight" of the glove
+  const body = ac.createOscillator()
+  body.type = 'sine'
+  body.frequency.setValueAtTime(150 - s * 50, t0)
+  body.frequency.exponentialRampToValueAtTime(55, t0 + 0.12)
+  const bodyGain = ac.createGain()
+  bodyGain.gain.setValueAtTime(0.0001, t0)
+  bodyGain.gain.exponentialRampToValueAtTime(0.2 + s * 0.6, t0 + 0.004)
+  bodyGain.gain.exponentialRampToValueAtTime(0.0001, t0 + 0.16)
+  body.connect(bodyGain).connect(out)
+
+  // Slap — lowpassed noise burst, the leather surface
+  const slap = noiseSource(ac)
+  const slapFilter = ac.createBiquadFilter()
+  slapFilter.type = 'lowpass'
+  slapFilter.frequency.value = 900 + s * 1800
+  const slapGain = ac.createGain()
+  slapGain.gain.setValueAtTime(0.15 + s * 0.45, t0)
+  slapGain.gain.exponentialRampToValueAtTime(0.0001, t0 + 0.07)
+  slap.connect(slapFilter).connect(slapGain).connect(out)
+
+  body.start(t0)
+  body.stop(t0 + 0.18)
+  slap.start(t0)
+  slap.stop(t0 + 0.08)
+}
+
+/** Rope creak as the string snaps taut. `strength` (0–1) from the radial speed. */
+export function playCreak(strength: number, pan: number): void {
+  const s = clamp01(strength)
+  if (s < 0.05 || !cooledDown('creak', CREAK_COOLDOWN_MS)) return
+  const v = voice(pan)
+  if (!v) return
+  const { ac, out } = v
+  const t0 = ac.currentTime
+  const duration = 0.12 + s * 0.15
+
+  const saw = ac.createOscillator()
+  saw.type = 'sawtooth'
+  saw.frequency.setValueAtTime(180 + s * 140, t0)
+  saw.frequency.linearRampToValueAtTime(120 + s * 60, t0 + duration)
+
+  // Slow wobble on pitch — fibres stick and slip
+  const wobble = ac.createOscillator()
+  wobble.frequency.value = 28
+  const wobbleDepth = ac.createGain()
+  wobbleDepth.gain.value = 25
+  wobble.connect(wobbleDepth).connect(saw.frequency)
+
+  const resonance = ac.createBiquadFilter()
+  resonance.type = 'bandpass'
+  resonance.frequency.value = 700
+  resonance.Q.value = 6
+  const gain = ac.createGain()
+  gain.gain.setValueAtTime(0.0001, t0)
+  gain.gain.exponentialRampToValueAtTime(0.05 + s * 0.12, t0 + 0.02)
+  gain.gain.exponentialRampToValueAtTime(0.0001, t0 + duration)
+  saw.connect(resonance).connect(gain).connect(out)
+
+  saw.start(t0)
+  wobble.start(t0)
+  saw.stop(t0 + duration)
+  wobble.stop(t0 + duration)
+}
+
+/** Air whoosh for fast flings. `strength` (0–1) from release speed. */
+export function playWhoosh(strength: number, pan: number): void {
+  const s = clamp01(strength)
+  if (s < 0.15 || !cooledDown('whoosh', WHOOSH_COOLDOWN_MS)) return
+  const v = voice(pan)
+  if (!v) return
+  const { ac, out } = v
+  const t0 = ac.currentTime
+  const duration = 0.25 + s * 0.2
+
+  const air = noiseSource(ac)
+  const sweep = ac.createBiquadFilter()
+  sweep.type = 'bandpass'
+  sweep.Q.value = 1.2
+  sweep.frequency.setValueAtTime(400, t0)
+  sweep.frequency.exponentialRampToValueAtTime(1600 + s * 1600, t0 + duration * 0.4)
+  sweep.frequency.exponentialRampToValueAtTime(500, t0 + duration)
+  const gain = ac.createGain()
+  gain.gain.setValueAtTime(0.0001, t0)
+  gain.gain.exponentialRampToValueAtTime(0.08 + s * 0.25, t0 + duration * 0.4)
+  gain.gain.exponentialRampToValueAtTime(0.0001, t0 + duration)
+  air.connect(sweep).connect(gain).connect(out)
+
+  air.start(t0)
+  air.stop(t0 + duration)
+}
@@ -0,0 +1,40 @@
+// =============================================================================
+// GLOVE CONTROLS — registry bridging DOM controls and the 3D gloves
+// Each hanging object registers a controller while it's mounted inside the
+// Canvas; DOM-side UI (keyboard buttons, screen-reader announcements) and the
+// session recorder (for the seed) look it up by manifest id. Keeps the two React trees
+// decoupled, like mousePositionRef.
+// =============================================================================
+
+/** Screen-space direction of a keyboard nudge */
+export type GloveDirection = 'left' | 'right' | 'up' | 'down'
+
+export interface GloveController {
+  /** Swing the glove along a screen direction — false if the glove ignored it (held, snapped, replaying…) */
+  nudge: (direction: GloveDirection) => boolean
+  /** Throw the glove toward the viewer — false if the glove ignored it */
+  punch: () => boolean
+  /** Show or hide the 3D focus ring */
+  setFocused: (focused: boolean) => void
+  /** Enter inspect mode on this glove (see lib/gloveInspect) — false if it didn't start */
+  inspect: () => boolean
+  /** Restart the glove's seeded RNG from a session seed */
+  reseed: (seed: number) => void
+}
+
+const controllers = new Map<string, GloveController>()
+
+export function registerGloveController(id: string, controller: GloveController): () => void {
+  controllers.set(id, controller)
+  return () => {
+    if (controllers.get(id) === controller) controllers.delete(id)
+  }
+}
+
+export function getGloveController(id: string): GloveController | undefined {
+  return controllers.get(id)
+}
+
+export function forEachGloveController(fn: (controller: GloveController, id: string) => void): void {
+  controllers.forEach(fn)
+}
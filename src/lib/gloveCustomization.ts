@@ -0,0 +1,98 @@
+import type { GloveCustomization, GloveFinish } from '../types'
+import { GLOVE_FINISHES, defaultGloveCustomization } from '../data/gloveCustomization'
+
+// =============================================================================
+// GLOVE CUSTOMIZATION — the visitor's colorway, cuff, monogram and finish
+// Module store shared by the DOM customizer and the gloves inside the Canvas.
+// Starts from ?gloves= (a shared link), else localStorage, else the stock look;
+// every change is saved back to localStorage. Both sources are untrusted, so
+// everything read back goes through validateCustomization.
+// =============================================================================
+
+const STORAGE_KEY = 'glove-customization'
+export const CUSTOMIZATION_PARAM = 'gloves'
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+const MONOGRAM_LENGTH = 3
+
+/** Monogram letters that the stitched decal can render — uppercase, digits, "&" and "." */
+export function sanitizeMonogram(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9&.]/g, '').slice(0, MONOGRAM_LENGTH)
+}
+
+/** Validate an untrusted customization. Invalid fields fall back to the stock look with a warning. */
+export function validateCustomization(input: unknown): GloveCustomization {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>
+  const result = { ...defaultGloveCustomization }
+
+  for (const key of ['leather', 'cuff'] as const) {
+    const value = source[key]
+    if (typeof value === 'string' && HEX_COLOR.test(value)) result[key] = value.toLowerCase()
+    else if (value !== undefined) console.warn(`[customization] ${key}: ${JSON.stringify(value)} is not a #rrggbb color — using ${result[key]}`)
+  }
+  if (typeof source.monogram === 'string') result.monogram = sanitizeMonogram(source.monogram)
+  if (typeof source.finish === 'string' && source.finish in GLOVE_FINISHES) result.finish = source.finish as GloveFinish
+  else if (source.finish !== undefined) console.warn(`[customization] unknown finish ${JSON.stringify(source.finish)} — using ${result.finish}`)
+  return result
+}
+
+/** URL-safe base64 of the customization JSON — values are ASCII once validated. */
+export function encodeCustomization(customization: GloveCustomization): string {
+  return btoa(JSON.stringify(customization)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/** Inverse of encodeCustomization. Returns null (with a warning) when the string isn't one at all. */
+export function decodeCustomization(encoded: string): GloveCustomization | null {
+  try {
+    return validateCustomization(JSON.parse(atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))))
+  } catch {
+    console.warn(`[customization] could not decode "${encoded.slice(0, 24)}…" — ignoring`)
+    return null
+  }
+}
+
+function readFromUrl(): GloveCustomization | null {
+  if (typeof window === 'undefined') return null
+  const encoded = new URLSearchParams(window.location.search).get(CUSTOMIZATION_PARAM)
+  return encoded ? decodeCustomization(encoded) : null
+}
+
+function readFromStorage(): GloveCustomization | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? validateCustomization(JSON.parse(raw)) : null
+  } catch {
+    return null
+  }
+}
+
+let current: GloveCustomization = readFromUrl() ?? readFromStorage() ?? defaultGloveCustomization
+const listeners = new Set<() => void>()
+
+export function getGloveCustomization(): GloveCustomization {
+  return current
+}
+
+export function setGloveCustomization(next: GloveCustomization): void {
+  current = validateCustomization(next)
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current))
+  } catch {
+    console.warn('[customization] localStorage is unavailable — changes last for this visit only')
+  }
+  listeners.forEach((fn) => fn())
+}
+
+export function subscribeGloveCustomization(fn: () => void): () => void {
+  listeners.add(fn)
+  return () => {
+    listeners.delete(fn)
+  }
+}
+
+/** Shareable link that opens the site wearing `customization`. */
+export function customizationUrl(customization: GloveCustomization): string {
+  const url = new URL(window.location.href)
+  url.searchParams.set(CUSTOMIZATION_PARAM, encodeCustomization(customization))
+  return url.toString()
+}
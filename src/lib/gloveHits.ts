@@ -0,0 +1,57 @@
+// =============================================================================
+// GLOVE HITS — punches that land on the page behind the Canvas
+// DOM components register elements as hit targets (see useGloveHitTarget).
+// When a tap-punch reaches full extension (HangingSpheres), the glove projects
+// its fist to the screen and the smallest registered element under that point
+// receives a bubbling 'glove-hit' CustomEvent. Hit-testing uses bounding rects,
+// so targets that ignore pointer events (the hero graffiti) still count.
+// =============================================================================
+
+export interface GloveHitDetail {
+  /** Manifest id of the glove that landed the punch */
+  gloveId: string
+  /** Name the element was registered with */
+  target: string
+  /** Screen point the fist landed on */
+  clientX: number
+  clientY: number
+  /** 0–1, on the same scale as the glove audio */
+  strength: number
+}
+
+export type GloveHitEvent = CustomEvent<GloveHitDetail>
+
+declare global {
+  interface ElementEventMap {
+    'glove-hit': GloveHitEvent
+  }
+}
+
+const targets = new Map<Element, string>()
+
+export function registerGloveHitTarget(element: Element, name: string): () => void {
+  targets.set(element, name)
+  return () => {
+    if (targets.get(element) === name) targets.delete(element)
+  }
+}
+
+/** Fire 'glove-hit' on the registered target under the point. Returns the element hit, if any. */
+export function dispatchGloveHit(gloveId: string, clientX: number, clientY: number, strength: number): Element | null {
+  let hit: { element: Element; name: string } | null = null
+  let hitArea = Infinity
+  for (const [element, name] of targets) {
+    if (!element.isConnected) continue
+    const rect = element.getBoundingClientRect()
+    const area = rect.width * rect.height
+    if (area === 0 || area >= hitArea) continue
+    if (clientX < rect.left || clientX > rect.right || clientY < rect.top || clientY > rect.bottom) continue
+    hit = { element, name }
+    hitArea = area
+  }
+  if (!hit) return null
+
+  const detail: GloveHitDetail = { gloveId, target: hit.name, clientX, clientY, strength }
+  hit.element.dispatchEvent(new CustomEvent('glove-hit', { detail, bubbles: true }))
+  return hit.element
+}
@@ -0,0 +1,59 @@
+import type * as THREE from 'three'
+
+// =============================================================================
+// GLOVE INSPECT — the glove being examined up close, if any
+// Entered by double-clicking a glove (HangingSpheres) or pressing I on its
+// GloveControls button. While a glove is inspected its physics is paused, the
+// Scene's InspectCamera flies in and hands over to orbit controls, and page
+// scroll is frozen the way TopCards does it: a data attribute on <html>
+// (data-glove-inspect) that App's Lenis observer turns into scroll.stop().
+// Esc flies the camera back and ends the inspection.
+// =============================================================================
+
+let inspected: string | null = null
+const listeners = new Set<(id: string | null) => void>()
+const targets = new Map<string, THREE.Object3D>()
+
+function commit(next: string | null) {
+  inspected = next
+  if (typeof document !== 'undefined') {
+    if (next) document.documentElement.setAttribute('data-glove-inspect', next)
+    else document.documentElement.removeAttribute('data-glove-inspect')
+  }
+  listeners.forEach((fn) => fn(next))
+}
+
+/** The object the camera frames while `id` is inspected (the rendered glove) */
+export function registerInspectTarget(id: string, object: THREE.Object3D): () => void {
+  targets.set(id, object)
+  return () => {
+    if (targets.get(id) === object) targets.delete(id)
+  }
+}
+
+export function getInspectTarget(id: string): THREE.Object3D | undefined {
+  return targets.get(id)
+}
+
+export function getInspectedGlove(): string | null {
+  return inspected
+}
+
+/** Start inspecting a glove — ignored while another one is inspected */
+export function inspectGlove(id: string): void {
+  if (inspected !== null || !targets.has(id)) return
+  commit(id)
+}
+
+/** Called by InspectCamera once it's back at the resting composition */
+export function endGloveInspect(): void {
+  if (inspected === null) return
+  commit(null)
+}
+
+export function subscribeGloveInspect(fn: (id: string | null) => void): () => void {
+  listeners.add(fn)
+  return () => {
+    listeners.delete(fn)
+  }
+}
@@ -0,0 +1,223 @@
+import * as THREE from 'three'
+import { DecalGeometry } from 'three/examples/jsm/geometries/DecalGeometry.js'
+import type { GloveCustomization } from '../types'
+import { defaultGloveCustomization } from '../data/gloveCustomization'
+
+// =============================================================================
+// GLOVE MATERIAL — customization applied to the cloned GLB materials
+// The leather is recolored in the shader (no new textures, no re-download):
+// the baked red panels are keyed by hue and the wrist cuff by a height band,
+// and both keep the texel's brightness so creases and stitching survive.
+// Cold weather frosts the leather: an icy bloom toward the lighter texels and a
+// rougher surface. The monogram is a CanvasTexture decal projected onto the front of the cuff.
+// Uniforms are updated in place, so changing colors never recompiles.
+// =============================================================================
+
+const CUFF_FRACTION = 0.28 // Top share of the glove mesh height that is the wrist cuff
+const CUFF_FEATHER = 0.02  // Soft edge of the cuff band, as a share of the height
+const FROST_COLOR = '#e4eef7'
+
+// Monogram decal — size as a share of the glove mesh height
+const MONOGRAM_WIDTH = 0.34
+const MONOGRAM_HEIGHT = 0.17
+const MONOGRAM_DEPTH = 0.25 // Projection depth — deep enough to wrap the cuff's curve
+const MONOGRAM_CANVAS = [512, 256] as const
+
+export interface GloveRecolorUniforms {
+  uLeather: { value: THREE.Color }
+  uLeatherMix: { value: number }
+  uLeatherLuma: { value: number }
+  uCuff: { value: THREE.Color }
+  uCuffMix: { value: number }
+  uCuffSpace: { value: THREE.Matrix4 }
+  uCuffStart: { value: number }
+  uCuffFeather: { value: number }
+  uFrost: { value: number }
+  uFrostColor: { value: THREE.Color }
+}
+
+function luma(color: THREE.Color): number {
+  return color.r * 0.2126 + color.g * 0.7152 + color.b * 0.0722
+}
+
+// Mesh → root transform and the mesh bounds in root space (the root is the
+// cloned GLB scene; the model hangs cuff-up, so the cuff is the top of the box)
+function measure(mesh: THREE.Mesh, root: THREE.Object3D) {
+  root.updateMatrixWorld(true)
+  const toRoot = root.matrixWorld.clone().invert().multiply(mesh.matrixWorld)
+  mesh.geometry.computeBoundingBox()
+  const box = mesh.geometry.boundingBox!.clone().applyMatrix4(toRoot)
+  return { toRoot, box, height: box.max.y - box.min.y }
+}
+
+/**
+ * Add the leather/cuff recolor to a (cloned) glove material. Composes with any
+ * theme onBeforeCompile already installed — the recolor runs first, so theme
+ * desaturation still applies on top.
+ */
+export function installGloveRecolor(mesh: THREE.Mesh, root: THREE.Object3D, cacheKey: string): GloveRecolorUniforms {
+  const material = mesh.material as THREE.MeshStandardMaterial
+  const { toRoot, box, height } = measure(mesh, root)
+  const uniforms: GloveRecolorUniforms = {
+    uLeather: { value: new THREE.Color(defaultGloveCustomization.leather) },
+    uLeatherMix: { value: 0 },
+    uLeatherLuma: { value: luma(new THREE.Color(defaultGloveCustomization.leather)) },
+    uCuff: { value: new THREE.Color(defaultGloveCustomization.cuff) },
+    uCuffMix: { value: 0 },
+    uCuffSpace: { value: toRoot },
+    uCuffStart: { value: box.max.y - CUFF_FRACTION * height },
+    uCuffFeather: { value: CUFF_FEATHER * height },
+    uFrost: { value: 0 },
+    uFrostColor: { value: new THREE.Color(FROST_COLOR) },
+  }
+
+  const themeCompile = material.onBeforeCompile.bind(material)
+  material.onBeforeCompile = (shader, renderer) => {
+    themeCompile(shader, renderer)
+    Object.assign(shader.uniforms, uniforms)
+    shader.vertexShader = `uniform mat4 uCuffSpace;\nvarying float vGloveCuffY;\n${shader.vertexShader}`.replace(
+      '#include <begin_vertex>',
+      `
+      #include <begin_vertex>
+      vGloveCuffY = (uCuffSpace * vec4(transformed, 1.0)).y;
+      `
+    )
+    shader.fragmentShader = `
+      uniform vec3 uLeather;
+      uniform float uLeatherMix;
+      uniform float uLeatherLuma;
+      uniform vec3 uCuff;
+      uniform float uCuffMix;
+      uniform float uCuffStart;
+      uniform float uCuffFeather;
+      uniform float uFrost;
+      uniform vec3 uFrostColor;
+      varying float vGloveCuffY;
+      ${shader.fragmentShader}`.replace(
+      '#include <map_fragment>',
+      `
+      #include <map_fragment>
+      {
+        float gloveLuma = dot(diffuseColor.rgb, vec3(0.2126, 0.7152, 0.0722));
+        // Baked red panels → leather colorway, shaded by the texel's brightness
+        float redKey = smoothstep(0.15, 0.4, diffuseColor.r - max(diffuseColor.g, diffuseColor.b));
+        vec3 leather = uLeather * clamp(gloveLuma / uLeatherLuma, 0.0, 1.5);
+        diffuseColor.rgb = mix(diffuseColor.rgb, leather, redKey * uLeatherMix);
+        // Wrist band → cuff color; print and stitching stay as light/dark detail
+        float cuffKey = smoothstep(uCuffStart - uCuffFeather, uCuffStart + uCuffFeather, vGloveCuffY);
+        vec3 cuff = uCuff * (0.35 + 0.65 * sqrt(gloveLuma));
+        diffuseColor.rgb = mix(diffuseColor.rgb, cuff, cuffKey * uCuffMix);
+        // Frost settles thickest on the raised (lighter) texels
+        diffuseColor.rgb = mix(diffuseColor.rgb, uFrostColor, uFrost * (0.12 + 0.18 * gloveLuma));
+      }
+      `
+    ).replace(
+      '#include <roughnessmap_fragment>',
+      `
+      #include <roughnessmap_fragment>
+      roughnessFactor = mix(roughnessFactor, 1.0, uFrost * 0.5);
+      `
+    )
+  }
+  // Every theme shares this wrapper's source — key programs by theme as well
+  material.customProgramCacheKey = () => cacheKey
+  material.needsUpdate = true
+  return uniforms
+}
+
+/** Point the recolor at a customization. Stock colors switch the recolor off entirely. */
+export function updateGloveRecolor(uniforms: GloveRecolorUniforms, customization: GloveCustomization): void {
+  uniforms.uLeather.value.set(customization.leather)
+  uniforms.uLeatherMix.value = customization.leather === defaultGloveCustomization.leather ? 0 : 1
+  uniforms.uCuff.value.set(customization.cuff)
+  uniforms.uCuffMix.value = customization.cuff === defaultGloveCustomization.cuff ? 0 : 1
+}
+
+/** Frost the leather for cold weather (0 = none, 1 = fully frosted — see frostAmount). */
+export function updateGloveFrost(uniforms: GloveRecolorUniforms, frost: number): void {
+  uniforms.uFrost.value = frost
+}
+
+export function createMonogramTexture(): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas')
+  canvas.width = MONOGRAM_CANVAS[0]
+  canvas.height = MONOGRAM_CANVAS[1]
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.colorSpace = THREE.SRGBColorSpace
+  texture.anisotropy = 4
+  return texture
+}
+
+/** Redraw the monogram as stitched lettering, in a thread color that reads on the cuff. */
+export function drawMonogram(texture: THREE.CanvasTexture, text: string, cuffColor: string): void {
+  const canvas = texture.image as HTMLCanvasElement
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+  if (text) {
+    const thread = luma(new THREE.Color(cuffColor)) > 0.3 ? '#1a1a1a' : '#f4f1ea'
+
+    ctx.font = `800 ${canvas.height * 0.62}px Inter, system-ui, sans-serif`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    const x = canvas.width / 2
+    const y = canvas.height / 2
+
+    // Satin-stitch fill, then a running stitch around each letter
+    ctx.fillStyle = thread
+    ctx.globalAlpha = 0.92
+    ctx.fillText(text, x, y)
+    ctx.globalAlpha = 1
+    ctx.strokeStyle = thread
+    ctx.lineWidth = 5
+    ctx.setLineDash([12, 8])
+    ctx.strokeText(text, x, y)
+    ctx.setLineDash([])
+  }
+  texture.needsUpdate = true
+}
+
+/**
+ * Project the monogram onto the front of the cuff. Returns a mesh in the
+ * root's space (add it to `root`), or null when the cuff can't be found.
+ * The model faces -Z (the manifest's yRotation turns it to the viewer).
+ */
+export function createMonogramDecal(mesh: THREE.Mesh, root: THREE.Object3D, texture: THREE.Texture): THREE.Mesh | null {
+  const { box, height } = measure(mesh, root)
+  const origin = new THREE.Vector3(
+    (box.min.x + box.max.x) / 2,
+    box.max.y - CUFF_FRACTION * height * 0.5,
+    box.min.z - height
+  ).applyMatrix4(root.matrixWorld)
+  const direction = new THREE.Vector3(0, 0, 1).transformDirection(root.matrixWorld)
+  const [hit] = new THREE.Raycaster(origin, direction).intersectObject(mesh, false)
+  if (!hit?.face) return null
+
+  // Orient the projector along the surface normal, text upright
+  const normal = hit.face.normal.clone().transformDirection(mesh.matrixWorld)
+  const projector = new THREE.Object3D()
+  projector.position.copy(hit.point)
+  projector.lookAt(hit.point.clone().add(normal))
+
+  const geometry = new DecalGeometry(
+    mesh,
+    hit.point,
+    projector.rotation,
+    new THREE.Vector3(MONOGRAM_WIDTH, MONOGRAM_HEIGHT, MONOGRAM_DEPTH).multiplyScalar(height)
+  )
+  geometry.applyMatrix4(root.matrixWorld.clone().invert()) // Decal vertices come out in world space
+
+  const decal = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({
+    map: texture,
+    transparent: true,
+    depthWrite: false,
+    polygonOffset: true,
+    polygonOffsetFactor: -4,
+    roughness: 0.9,
+  }))
+  decal.name = 'monogram'
+  decal.userData.monogram = true
+  decal.receiveShadow = true
+  return decal
+}
@@ -0,0 +1,195 @@
+import RAPIER from '@dimforge/rapier3d-compat'
+import * as THREE from 'three'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { PHYSICS_TIMESTEP } from '../constants/physics'
+import { MAX_ROPE_TWIST, createGloveRigState, stepGloveRig, type GloveRigParams, type GloveRigState } from './gloveRig'
+import { mulberry32 } from './random'
+
+// Headless scenarios: the rig driving a real Rapier body at the fixed
+// PHYSICS_TIMESTEP with a seeded RNG — the same loop the physics worker runs,
+// minus the page inputs
+
+const ANCHOR = new THREE.Vector3(0, 3.2, 0)
+const STRING_LENGTH = 2.5
+const REST = new THREE.Vector3(ANCHOR.x, ANCHOR.y - STRING_LENGTH, ANCHOR.z)
+const SETTLE_DISTANCE = 0.05 // Units from the natural hang that count as settled
+const SETTLE_SPEED = 0.05    // Units/s
+const FRONT_FACING = 0.1     // Radians of yaw or tilt off the resting pose that still count as front-facing
+const FRONT_LEAN = Math.atan(0.15) // Forward tilt the righting torque settles on (gloveRig FRONT_BIAS)
+
+interface Scenario {
+  body: RAPIER.RigidBody
+  state: GloveRigState
+  drops: number
+  bounces: number[]
+  snaps: number[]
+  /** Advance `seconds` of simulated time, calling `onStep` after each step */
+  run(seconds: number, onStep?: (time: number) => void): void
+  distance(): number
+  /** Run `seconds` more, returning how long from now the glove took to settle for good (Infinity if it never did) */
+  settleTime(seconds: number): number
+}
+
+// Signed angle a → b, wrapped to [-π, π]
+function angleBetween(a: number, b: number): number {
+  return Math.atan2(Math.sin(b - a), Math.cos(b - a))
+}
+
+function createScenario({ seed = 1, dropped = true, breakingStrain = 0, yRotation = 0 } = {}): Scenario {
+  const world = new RAPIER.World({ x: 0, y: -9.81, z: 0 })
+  const params: GloveRigParams = {
+    anchor: ANCHOR,
+    startPosition: [ANCHOR.x, ANCHOR.y + 3, ANCHOR.z],
+    stringLength: STRING_LENGTH,
+    springStrength: 5,
+    yRotation,
+    breakingStrain,
+  }
+  const [x, y, z] = dropped ? [REST.x, REST.y, REST.z] : params.startPosition
+  // Hung at its resting yaw, as the physics worker does
+  const rotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(0, yRotation, 0))
+  const body = world.createRigidBody(
+    RAPIER.RigidBodyDesc.dynamic().setTranslation(x, y, z).setRotation(rotation).setLinearDamping(1).setAngularDamping(1.5)
+  )
+  world.createCollider(RAPIER.ColliderDesc.cuboid(0.525, 0.79, 0.525).setMass(1.2), body)
+
+  // A fresh glove is held until the test lets the drop delay elapse
+  const state = createGloveRigState(dropped)
+  state.hasDropped = dropped
+  const random = mulberry32(seed)
+  let time = 0
+  const scenario: Scenario = {
+    body,
+    state,
+    drops: 0,
+    bounces: [],
+    snaps: [],
+    run(seconds, onStep) {
+      for (let i = 0; i < Math.round(seconds / PHYSICS_TIMESTEP); i++) {
+        stepGloveRig(body, state, params, PHYSICS_TIMESTEP, random, {
+          onDrop: () => scenario.drops++,
+          onStringBounce: (speed) => scenario.bounces.push(speed),
+          onSnap: (speed) => scenario.snaps.push(speed),
+        })
+        world.timestep = PHYSICS_TIMESTEP
+        world.step()
+        time += PHYSICS_TIMESTEP
+        onStep?.(time)
+      }
+    },
+    distance() {
+      const p = body.translation()
+      return ANCHOR.distanceTo(new THREE.Vector3(p.x, p.y, p.z))
+    },
+    // Speed from the pose change per step — at rest the body's velocity still
+    // holds the gravity the string correction cancels out every step
+    settleTime(seconds) {
+      const start = time
+      const last = new THREE.Vector3().copy(body.translation())
+      const position = new THREE.Vector3()
+      let settledAt = Infinity
+      scenario.run(seconds, (now) => {
+        position.copy(body.translation())
+        const speed = position.distanceTo(last) / PHYSICS_TIMESTEP
+        last.copy(position)
+        if (position.distanceTo(REST) > SETTLE_DISTANCE || speed > SETTLE_SPEED) settledAt = Infinity
+        else if (settledAt === Infinity) settledAt = now - start
+      })
+      return settledAt
+    },
+  }
+  return scenario
+}
+
+beforeAll(async () => {
+  await RAPIER.init()
+})
+
+describe('stepGloveRig', () => {
+  it('drops in from the start position and settles at the natural hang', () => {
+    const scenario = createScenario({ dropped: false })
+    // Put back at the start before every step — it only drifts within one
+    scenario.run(0.5)
+    const held = scenario.body.translation()
+    expect(held.x).toBe(ANCHOR.x)
+    expect(held.y).toBeGreaterThan(ANCHOR.y + 2.8)
+    expect(scenario.drops).toBe(0)
+
+    scenario.state.dropDelayElapsed = true
+    const settle = scenario.settleTime(10)
+    expect(scenario.drops).toBe(1)
+    expect(scenario.state.hasDropped).toBe(true)
+    expect(settle).toBeLessThan(3)
+    const { x, y, z } = scenario.body.translation()
+    expect(x).toBeCloseTo(REST.x, 3)
+    expect(z).toBeCloseTo(REST.z, 3)
+    expect(Math.abs(y - REST.y)).toBeLessThan(SETTLE_DISTANCE)
+  })
+
+  it('swings back and settles after a sideways fling', () => {
+    const scenario = createScenario()
+    scenario.body.setLinvel({ x: 8, y: 2, z: 0 }, true)
+    let maxX = 0
+    scenario.run(0.5, () => (maxX = Math.max(maxX, scenario.body.translation().x)))
+    expect(maxX).toBeGreaterThan(1.5)
+    expect(scenario.bounces.length).toBeGreaterThan(0)
+
+    const settle = scenario.settleTime(20)
+    expect(settle).toBeGreaterThan(3)
+    expect(settle).toBeLessThan(12)
+    const { x, z } = scenario.body.translation()
+    expect(Math.hypot(x - REST.x, z - REST.z)).toBeLessThan(SETTLE_DISTANCE)
+  })
+
+  it('turns back front-facing after a knock that tips and spins it', () => {
+    const yRotation = Math.PI + Math.PI / 4 // The right glove's resting yaw
+    const scenario = createScenario({ yRotation })
+    scenario.body.setLinvel({ x: 8, y: 2, z: 0 }, true)
+    scenario.body.setAngvel({ x: 2, y: 1.5, z: -2 }, true)
+    expect(scenario.settleTime(20)).toBeLessThan(12)
+
+    const { x, y, z, w } = scenario.body.rotation()
+    const settled = new THREE.Euler().setFromQuaternion(new THREE.Quaternion(x, y, z, w), 'YXZ')
+    expect(Math.abs(angleBetween(yRotation, settled.y))).toBeLessThan(FRONT_FACING)
+    expect(Math.abs(settled.x - FRONT_LEAN)).toBeLessThan(FRONT_FACING)
+    expect(Math.abs(settled.z)).toBeLessThan(FRONT_FACING)
+  })
+
+  it('replays the same motion for the same seed', () => {
+    const fling = (seed: number) => {
+      const scenario = createScenario({ seed })
+      scenario.body.setLinvel({ x: 6, y: 4, z: -3 }, true)
+      scenario.run(2)
+      return { position: scenario.body.translation(), rotation: scenario.body.rotation() }
+    }
+    expect(fling(7)).toEqual(fling(7))
+    expect(fling(7)).not.toEqual(fling(8))
+  })
+
+  it('clamps the stretch past the string length and the twist at its maximum', () => {
+    const scenario = createScenario()
+    scenario.body.setLinvel({ x: 0, y: -20, z: 0 }, true)
+    scenario.body.setAngvel({ x: 0, y: 60, z: 0 }, true)
+    let maxDistance = 0
+    let maxTwist = 0
+    scenario.run(3, () => {
+      maxDistance = Math.max(maxDistance, scenario.distance())
+      maxTwist = Math.max(maxTwist, Math.abs(scenario.state.twist))
+    })
+    expect(scenario.bounces[0]).toBeGreaterThan(15)
+    expect(maxDistance).toBeLessThan(STRING_LENGTH * 1.05)
+    expect(scenario.distance()).toBeLessThan(STRING_LENGTH + SETTLE_DISTANCE)
+    expect(maxTwist).toBeLessThanOrEqual(MAX_ROPE_TWIST)
+    expect(scenario.snaps).toEqual([])
+  })
+
+  it('snaps instead of clamping past the breaking strain, then lets the glove fall free', () => {
+    const scenario = createScenario({ breakingStrain: 10 })
+    scenario.body.setLinvel({ x: 0, y: -20, z: 0 }, true)
+    scenario.run(1)
+    expect(scenario.snaps).toHaveLength(1)
+    expect(scenario.snaps[0]).toBeGreaterThan(10)
+    expect(scenario.state.snapped).toBe(true)
+    expect(scenario.distance()).toBeGreaterThan(STRING_LENGTH + 5)
+  })
+})
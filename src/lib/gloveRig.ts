@@ -0,0 +1,225 @@
+import * as THREE from 'three'
+import type { Vec3 } from '../types'
+
+// =============================================================================
+// GLOVE RIG — per-step forces for a glove hanging on a soft string
+// Drop-in, string constraint + bounce (or snap), restoring pull toward the natural hang,
+// the bottom-heavy righting torque, and the string's twist spring. Framework-free: it only talks to a body
+// through RigBody (a subset of Rapier's RigidBody API) and takes its randomness
+// from an injected generator, so the same inputs always produce the same motion.
+// =============================================================================
+
+type XYZ = { x: number; y: number; z: number }
+
+/** The slice of Rapier's RigidBody the rig reads and writes. */
+export interface RigBody {
+  translation(): XYZ
+  rotation(): XYZ & { w: number }
+  linvel(): XYZ
+  angvel(): XYZ
+  setTranslation(translation: XYZ, wakeUp: boolean): void
+  setLinvel(linvel: XYZ, wakeUp: boolean): void
+  setAngvel(angvel: XYZ, wakeUp: boolean): void
+}
+
+export interface GloveRigParams {
+  /** Where the string is tied */
+  anchor: THREE.Vector3
+  /** Where the glove is held until the drop delay elapses */
+  startPosition: Vec3
+  /** Glove center ↔ anchor distance at rest */
+  stringLength: number
+  /** Restoring pull toward the natural hang, per unit of displacement */
+  springStrength: number
+  /** Front-facing yaw the bounce nudges toward */
+  yRotation: number
+  /** String-catch speed (units/s) past which the rope snaps — 0 = unbreakable */
+  breakingStrain: number
+}
+
+export interface GloveRigState {
+  /** Set by the caller once the staggered drop delay has passed */
+  dropDelayElapsed: boolean
+  /** While true only the hold/drop logic runs — the pointer owns the glove */
+  dragging: boolean
+  hasDropped: boolean
+  /** Seconds since the drop-in kicked off */
+  settledTime: number
+  /** Spin accumulated about the string (radians) — the rope winds up as the glove turns */
+  twist: number
+  /** The rope broke — the glove is a free body until it's hung again */
+  snapped: boolean
+}
+
+export interface GloveRigEvents {
+  /** The drop-in velocity was applied this step */
+  onDrop?: () => void
+  /** The string caught the glove moving outward at `radialSpeed` units/s */
+  onStringBounce?: (radialSpeed: number) => void
+  /** The catch at `radialSpeed` was past the breaking strain — the rope snapped */
+  onSnap?: (radialSpeed: number) => void
+}
+
+const DROP_SPEED = 4              // Initial downward speed of the drop-in (units/s)
+const DROP_TRIGGER_HEIGHT = 2.5   // Drop-in kicks off once the glove falls below anchor + this
+const BOUNCE_FACTOR = 0.25        // Share of outward velocity returned inward when the string snaps taut
+const BOUNCE_TILT = 0.5           // Random X/Z wobble per unit of radial speed
+const BOUNCE_YAW_BIAS = 0.3       // Yaw correction toward front-facing per bounce
+const STRING_CORRECTION = 0.3     // Fraction of string overshoot fed back as velocity per step
+const TORQUE_DELAY = 0.4          // Seconds after the drop before the righting torque kicks in
+const TORQUE_GAIN = 4.0           // Misalignment (radians) → target angular velocity
+const TORQUE_RATE = 4.8           // Angular velocity gained per second per unit of target
+const FRONT_BIAS = 0.15           // Local "down" leans toward +Z so gloves settle facing the camera
+const TWIST_STIFFNESS = 1.2       // Unwinding angular acceleration (rad/s²) per radian of twist
+
+/** The rope can't wind further than this (radians) — spin past it is absorbed */
+export const MAX_ROPE_TWIST = 6 * Math.PI
+
+// Scratch objects (steps run sequentially, so one set is enough)
+const _center = new THREE.Vector3()
+const _toGlove = new THREE.Vector3()
+const _direction = new THREE.Vector3()
+const _toNatural = new THREE.Vector3()
+const _gloveDown = new THREE.Vector3()
+const _torqueAxis = new THREE.Vector3()
+const _twistAxis = new THREE.Vector3()
+const _worldDown = new THREE.Vector3(0, -1, 0)
+const _quat = new THREE.Quaternion()
+const _euler = new THREE.Euler()
+
+export function createGloveRigState(dropDelayElapsed: boolean): GloveRigState {
+  return { dropDelayElapsed, dragging: false, hasDropped: false, settledTime: 0, twist: 0, snapped: false }
+}
+
+/**
+ * Advance the rig by one fixed physics step of `dt` seconds. `random` returns
+ * floats in [0, 1) — pass a seeded generator for reproducible runs.
+ */
+export function stepGloveRig(
+  body: RigBody,
+  state: GloveRigState,
+  params: GloveRigParams,
+  dt: number,
+  random: () => number,
+  events: GloveRigEvents = {}
+): void {
+  const { anchor, stringLength } = params
+
+  // Nothing holds a glove on a snapped rope — gravity and collisions only
+  if (state.snapped) return
+
+  // Hold the glove at its start position until the drop delay has elapsed
+  if (!state.dropDelayElapsed) {
+    const [sx, sy, sz] = params.startPosition
+    body.setTranslation({ x: sx, y: sy, z: sz }, true)
+    body.setLinvel({ x: 0, y: 0, z: 0 }, true)
+  }
+
+  const position = body.translation()
+  _center.set(position.x, position.y, position.z)
+  _toGlove.copy(_center).sub(anchor)
+  const distance = _toGlove.length()
+
+  // Drop-in: a downward kick once the glove has started to fall
+  if (state.dropDelayElapsed && !state.hasDropped && _center.y < anchor.y + DROP_TRIGGER_HEIGHT) {
+    state.hasDropped = true
+    body.setLinvel({ x: 0, y: -DROP_SPEED, z: 0 }, true)
+    events.onDrop?.()
+  }
+
+  // Soft string constraint: past stringLength the overshoot is fed back as
+  // inward velocity, so the glove eases back over a few steps (no pops)
+  if (!state.dragging && distance > stringLength) {
+    _direction.copy(_toGlove).normalize()
+
+    // Convert outward velocity to an inward bounce (spring effect)
+    const vel = body.linvel()
+    const radialSpeed = vel.x * _direction.x + vel.y * _direction.y + vel.z * _direction.z
+    if (params.breakingStrain > 0 && radialSpeed > params.breakingStrain) {
+      state.snapped = true
+      events.onSnap?.(radialSpeed)
+      return
+    }
+    if (radialSpeed > 0) {
+      events.onStringBounce?.(radialSpeed)
+      const bounce = radialSpeed * (1 + BOUNCE_FACTOR)
+      body.setLinvel(
+        { x: vel.x - _direction.x * bounce, y: vel.y - _direction.y * bounce, z: vel.z - _direction.z * bounce },
+        true
+      )
+
+      // Random wobble on X/Z, yaw biased toward front-facing
+      const rot = body.rotation()
+      _euler.setFromQuaternion(_quat.set(rot.x, rot.y, rot.z, rot.w), 'YXZ')
+      const normalizedYaw = ((params.yRotation - _euler.y + Math.PI) % (2 * Math.PI)) - Math.PI
+      const tilt = radialSpeed * BOUNCE_TILT
+      const angVel = body.angvel()
+      body.setAngvel(
+        {
+          x: angVel.x + (random() - 0.5) * tilt,
+          y: angVel.y + normalizedYaw * BOUNCE_YAW_BIAS,
+          z: angVel.z + (random() - 0.5) * tilt,
+        },
+        true
+      )
+    }
+
+    // Ease the remaining overshoot out — only top up what the glove isn't
+    // already doing, so the correction never adds energy
+    const correctionSpeed = ((distance - stringLength) * STRING_CORRECTION) / dt
+    const current = body.linvel()
+    const inwardSpeed = -(current.x * _direction.x + current.y * _direction.y + current.z * _direction.z)
+    const extra = correctionSpeed - inwardSpeed
+    if (extra > 0) {
+      body.setLinvel(
+        { x: current.x - _direction.x * extra, y: current.y - _direction.y * extra, z: current.z - _direction.z * extra },
+        true
+      )
+    }
+  }
+
+  if (!state.dragging) {
+    // Restoring pull toward the natural hang (directly below the anchor) —
+    // keeps the gloves from resting on top of each other
+    _toNatural.set(anchor.x, anchor.y - stringLength, anchor.z).sub(_center)
+    const distanceFromNatural = _toNatural.length()
+    if (distanceFromNatural > 0.01) {
+      _toNatural.normalize().multiplyScalar(params.springStrength * distanceFromNatural * dt)
+      const vel = body.linvel()
+      body.setLinvel({ x: vel.x + _toNatural.x, y: vel.y + _toNatural.y, z: vel.z + _toNatural.z }, true)
+    }
+
+    // Bottom-heavy righting torque — like a tree air freshener, the knuckles
+    // hang lowest. Skipped during the drop so gloves fall straight.
+    if (state.settledTime > TORQUE_DELAY) {
+      const rot = body.rotation()
+      _gloveDown.set(0, -1, FRONT_BIAS).normalize().applyQuaternion(_quat.set(rot.x, rot.y, rot.z, rot.w))
+      _torqueAxis.crossVectors(_gloveDown, _worldDown)
+      const misalignment = _torqueAxis.length()
+      if (misalignment > 0.01) {
+        _torqueAxis.normalize().multiplyScalar(Math.asin(Math.min(1, misalignment)) * TORQUE_GAIN * TORQUE_RATE * dt)
+        const angVel = body.angvel()
+        body.setAngvel({ x: angVel.x + _torqueAxis.x, y: angVel.y + _torqueAxis.y, z: angVel.z + _torqueAxis.z }, true)
+      }
+    }
+
+    // Twist: spin about the string winds the rope up, and the wound rope
+    // spins the glove back the other way (overshooting, then settling)
+    if (state.hasDropped && distance > 0.01) {
+      _twistAxis.copy(_toGlove).divideScalar(distance)
+      const angVel = body.angvel()
+      const spin = angVel.x * _twistAxis.x + angVel.y * _twistAxis.y + angVel.z * _twistAxis.z
+      const fullyWound = Math.abs(state.twist) >= MAX_ROPE_TWIST && spin * state.twist > 0
+      state.twist = THREE.MathUtils.clamp(state.twist + (fullyWound ? 0 : spin * dt), -MAX_ROPE_TWIST, MAX_ROPE_TWIST)
+      const change = (fullyWound ? -spin : 0) - state.twist * TWIST_STIFFNESS * dt
+      body.setAngvel(
+        { x: angVel.x + _twistAxis.x * change, y: angVel.y + _twistAxis.y * change, z: angVel.z + _twistAxis.z * change },
+        true
+      )
+    }
+  }
+
+  if (state.hasDropped) {
+    state.settledTime += dt
+  }
+}
@@ -0,0 +1,374 @@
+import * as THREE from 'three'
+import type { Vec3 } from '../types'
+import type { RigBody } from './gloveRig'
+import { PHYSICS_TIMESTEP } from '../constants/physics'
+import {
+  SNAPSHOT_ANGVEL,
+  SNAPSHOT_FLAGS,
+  SNAPSHOT_FLAG_DROP_DELAY_ELAPSED,
+  SNAPSHOT_FLAG_HAS_DROPPED,
+  SNAPSHOT_FLAG_HELD,
+  SNAPSHOT_FLAG_SNAPPED,
+  SNAPSHOT_LINVEL,
+  SNAPSHOT_POSITION,
+  SNAPSHOT_ROTATION,
+  SNAPSHOT_SETTLED,
+  SNAPSHOT_TWIST,
+  SNAPSHOT_STRIDE,
+  type GloveBodyConfig,
+  type GloveWorldCommand,
+  type GloveWorldConfig,
+  type GloveWorldEvent,
+  type GloveWorldInput,
+  type GloveWorldMessage,
+  type GloveWorldRecording,
+  type GloveWorldSnapshot,
+  type GloveWorldStampedInput,
+} from './gloveWorldProtocol'
+
+// =============================================================================
+// GLOVE WORLD — render-thread side of the glove physics worker
+// Each glove registers its body setup here; the Rapier world itself lives in
+// workers/gloveWorld.worker.ts. getGloveBody(id) is a stand-in for the Rapier
+// body: reads come from the latest snapshot, velocity changes are forwarded as
+// deltas (so several writers in one frame add up), and pose() interpolates
+// between snapshots for rendering. The worker is started by the first
+// registration and lives as long as the page. Session recording and replay
+// (lib/sessionRecording) reset the world and hand visitor inputs over as
+// step-stamped logs, so the worker replays them on the same physics steps.
+// =============================================================================
+
+/** Rig state mirrored from the worker (see GloveRigState) */
+export interface GloveBodyState {
+  dropDelayElapsed: boolean
+  hasDropped: boolean
+  /** Dragged, mid tap-punch or paused */
+  held: boolean
+  settledTime: number
+  twist: number
+  /** The rope broke — falling free until rehang() */
+  snapped: boolean
+}
+
+export interface GloveBody extends RigBody {
+  /** Interpolated pose for rendering */
+  pose(position: THREE.Vector3, quaternion: THREE.Quaternion): void
+  state(): Readonly<GloveBodyState>
+  /** Kinematic drag: take hold, follow targets, let go with a velocity */
+  grab(): void
+  moveTo(position: Vec3): void
+  release(velocity: Vec3): void
+  /** Jab the held glove from → to; it's handed back to the rig on landing */
+  punch(from: Vec3, to: Vec3): void
+  /** Velocity change from a keyboard nudge or punch, or a phone shake — unlike setLinvel, it's in session recordings */
+  impulse(linear: Vec3, angular: Vec3): void
+  /** Restart the bounce wobble RNG from a session seed */
+  reseed(seed: number): void
+  /** After a snap: back to the start position for a fresh drop-in */
+  rehang(): void
+  /** Freeze the glove in place (inspect mode) and resume it */
+  setPaused(paused: boolean): void
+}
+
+type WorldSettings = Omit<GloveWorldConfig, 'bodies'>
+
+/** Pointer inputs the worker applied while recording, and the steps it covered */
+export type GloveWorldInputLog = Omit<GloveWorldRecording, 'type'>
+
+interface BodyRecord {
+  body: GloveBody
+  /** Pose at the start of the current interpolation window */
+  fromPosition: THREE.Vector3
+  fromRotation: THREE.Quaternion
+  /** Latest snapshot — what RigBody reads return */
+  latest: Float32Array
+  receivedAt: number
+  duration: number
+}
+
+let worker: Worker | null = null
+let failed = false
+const failureListeners = new Set<() => void>()
+let active = true
+let floorY: number | null = null
+let settings: WorldSettings = { gravity: -9.81, scrollInertia: 0, reducedMotion: false }
+const registered = new Map<string, { config: GloveBodyConfig; onEvent: (event: GloveWorldEvent) => void }>()
+const records = new Map<string, BodyRecord>()
+const stepListeners = new Set<(dt: number) => void>()
+let configureQueued = false
+let step = 0 // Worker steps since the last reset, as of the latest snapshot
+let generation = 0 // Resets sent — snapshots from an earlier one are dropped
+const recordingRequests: ((log: GloveWorldInputLog) => void)[] = []
+
+const _position = new THREE.Vector3()
+const _rotation = new THREE.Quaternion()
+
+function send(command: GloveWorldCommand) {
+  worker?.postMessage(command)
+}
+
+function read(latest: Float32Array, offset: number) {
+  return { x: latest[offset], y: latest[offset + 1], z: latest[offset + 2] }
+}
+
+function createRecord(id: string): BodyRecord {
+  const latest = new Float32Array(SNAPSHOT_STRIDE)
+  latest[SNAPSHOT_ROTATION + 3] = 1
+
+  // A velocity write becomes a delta on the worker's body; the cached reading
+  // moves with it so later writers this frame build on it
+  const addVelocity = (offset: number, x: number, y: number, z: number) => {
+    const dx = x - latest[offset]
+    const dy = y - latest[offset + 1]
+    const dz = z - latest[offset + 2]
+    latest.set([x, y, z], offset)
+    const delta: Vec3 = [dx, dy, dz]
+    send(offset === SNAPSHOT_LINVEL
+      ? { type: 'velocity', id, linear: delta, angular: [0, 0, 0] }
+      : { type: 'velocity', id, linear: [0, 0, 0], angular: delta })
+  }
+
+  const record: BodyRecord = {
+    fromPosition: new THREE.Vector3(),
+    fromRotation: new THREE.Quaternion(),
+    latest,
+    receivedAt: 0,
+    duration: 0,
+    body: {
+      translation: () => read(latest, SNAPSHOT_POSITION),
+      rotation: () => ({ ...read(latest, SNAPSHOT_ROTATION), w: latest[SNAPSHOT_ROTATION + 3] }),
+      linvel: () => read(latest, SNAPSHOT_LINVEL),
+      angvel: () => read(latest, SNAPSHOT_ANGVEL),
+      setTranslation: ({ x, y, z }) => {
+        latest.set([x, y, z], SNAPSHOT_POSITION)
+        send({ type: 'place', id, position: [x, y, z] })
+      },
+      setLinvel: ({ x, y, z }) => addVelocity(SNAPSHOT_LINVEL, x, y, z),
+      setAngvel: ({ x, y, z }) => addVelocity(SNAPSHOT_ANGVEL, x, y, z),
+      pose: (position, quaternion) => {
+        const alpha = record.duration > 0 ? Math.min((performance.now() - record.receivedAt) / record.duration, 1) : 1
+        _position.set(latest[SNAPSHOT_POSITION], latest[SNAPSHOT_POSITION + 1], latest[SNAPSHOT_POSITION + 2])
+        _rotation.fromArray(latest, SNAPSHOT_ROTATION)
+        position.lerpVectors(record.fromPosition, _position, alpha)
+        quaternion.slerpQuaternions(record.fromRotation, _rotation, alpha)
+      },
+      state: () => {
+        const flags = latest[SNAPSHOT_FLAGS]
+        return {
+          dropDelayElapsed: (flags & SNAPSHOT_FLAG_DROP_DELAY_ELAPSED) !== 0,
+          hasDropped: (flags & SNAPSHOT_FLAG_HAS_DROPPED) !== 0,
+          held: (flags & SNAPSHOT_FLAG_HELD) !== 0,
+          settledTime: latest[SNAPSHOT_SETTLED],
+          twist: latest[SNAPSHOT_TWIST],
+          snapped: (flags & SNAPSHOT_FLAG_SNAPPED) !== 0,
+        }
+      },
+      grab: () => send({ type: 'grab', id }),
+      moveTo: (position) => send({ type: 'move', id, position }),
+      release: (velocity) => send({ type: 'release', id, velocity }),
+      punch: (from, to) => send({ type: 'punch', id, from, to }),
+      impulse: (linear, angular) => {
+        linear.forEach((v, i) => (latest[SNAPSHOT_LINVEL + i] += v))
+        angular.forEach((v, i) => (latest[SNAPSHOT_ANGVEL + i] += v))
+        send({ type: 'impulse', id, linear, angular })
+      },
+      reseed: (seed) => send({ type: 'reseed', id, seed }),
+      rehang: () => send({ type: 'rehang', id }),
+      setPaused: (paused) => send({ type: 'pause', id, paused }),
+    },
+  }
+  return record
+}
+
+function getRecord(id: string): BodyRecord {
+  let record = records.get(id)
+  if (!record) {
+    record = createRecord(id)
+    records.set(id, record)
+  }
+  return record
+}
+
+// Start the window from wherever the glove is drawn right now, so a snapshot
+// arriving mid-interpolation never jumps the glove back or forward
+function applySnapshot(record: BodyRecord, buffer: Float32Array, offset: number, steps: number) {
+  record.body.pose(record.fromPosition, record.fromRotation)
+  record.latest.set(buffer.subarray(offset, offset + SNAPSHOT_STRIDE))
+  record.receivedAt = performance.now()
+  record.duration = steps * PHYSICS_TIMESTEP * 1000
+}
+
+function fail(reason: string) {
+  if (failed) return
+  failed = true
+  console.warn('[gloveWorld] physics worker failed — the gloves will stay put', reason)
+  recordingRequests.splice(0).forEach((resolve) => resolve({ inputs: [], steps: 0 }))
+  failureListeners.forEach((fn) => fn())
+}
+
+// A snapshot still in flight when a reset went out carries the old world (and
+// its step count) — skip it rather than let it end a fresh replay early
+function handleSnapshot(message: GloveWorldSnapshot) {
+  if (message.generation !== generation) return
+  step = message.step
+  message.ids.forEach((id, i) => {
+    const record = records.get(id)
+    if (record) applySnapshot(record, message.buffer, i * SNAPSHOT_STRIDE, message.steps)
+  })
+  message.events.forEach((event) => registered.get(event.id)?.onEvent(event))
+  const dt = message.steps * PHYSICS_TIMESTEP
+  stepListeners.forEach((fn) => fn(dt))
+}
+
+function handleMessage(message: GloveWorldMessage) {
+  if (message.type === 'error') fail(message.message)
+  else if (message.type === 'recording') recordingRequests.shift()?.({ inputs: message.inputs, steps: message.steps })
+  else handleSnapshot(message)
+}
+
+function ensureWorker() {
+  if (worker || typeof Worker === 'undefined') return
+  worker = new Worker(new URL('../workers/gloveWorld.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (e: MessageEvent<GloveWorldMessage>) => handleMessage(e.data)
+  worker.onerror = (e) => fail(e.message)
+  send({ type: 'active', active })
+  if (floorY !== null) send({ type: 'floor', y: floorY })
+}
+
+function sendConfigure() {
+  if (registered.size === 0) return
+  ensureWorker()
+  send({ type: 'configure', config: { ...settings, bodies: [...registered.values()].map((entry) => entry.config) } })
+}
+
+// Registrations within one commit (a settings change re-registers every
+// glove) go to the worker as one configure
+function queueConfigure() {
+  if (configureQueued) return
+  configureQueued = true
+  queueMicrotask(() => {
+    configureQueued = false
+    sendConfigure()
+  })
+}
+
+/** The glove's body, by manifest id. Stable for the page's lifetime. */
+export function getGloveBody(id: string): GloveBody {
+  return getRecord(id).body
+}
+
+/**
+ * Add (or retune) a body in the worker's world. A new body starts held at its
+ * start position; retuning keeps its motion. `onEvent` hears its drop, string
+ * bounces, contacts, landed punches and rope snaps.
+ */
+export function registerGloveBody(config: GloveBodyConfig, onEvent: (event: GloveWorldEvent) => void): () => void {
+  const entry = { config, onEvent }
+  const record = getRecord(config.id)
+  if (!registered.has(config.id) && record.receivedAt === 0) {
+    const [x, y, z] = config.startPosition
+    record.latest.set([x, y, z], SNAPSHOT_POSITION)
+    _rotation.setFromEuler(new THREE.Euler(0, config.yRotation, 0)).toArray(record.latest, SNAPSHOT_ROTATION)
+    record.latest[SNAPSHOT_FLAGS] = config.dropDelay === 0 ? SNAPSHOT_FLAG_DROP_DELAY_ELAPSED : 0
+    record.fromPosition.set(x, y, z)
+    record.fromRotation.copy(_rotation)
+  }
+  registered.set(config.id, entry)
+  queueConfigure()
+  return () => {
+    if (registered.get(config.id) !== entry) return
+    registered.delete(config.id)
+    queueConfigure()
+  }
+}
+
+/** World-wide setup: base gravity, the scroll kick multiplier, reduced motion */
+export function configureGloveWorld(next: WorldSettings): void {
+  settings = next
+  queueConfigure()
+}
+
+/** Step only while the hero is on screen — the worker resumes without catch-up */
+export function setGloveWorldActive(next: boolean): void {
+  active = next
+  send({ type: 'active', active })
+}
+
+/** Per-frame inputs: leaned gravity, wind, scroll speed */
+export function setGloveWorldInput(input: GloveWorldInput): void {
+  send({ type: 'input', input })
+}
+
+/**
+ * Where the pointer is in the gloves' physics space, every frame. `solid`
+ * turns its collider on — only for a fast swipe, so resting or slow cursor
+ * movement never nudges a glove.
+ */
+export function setGloveWorldCursor(position: Vec3, solid: boolean): void {
+  send({ type: 'cursor', position, solid })
+}
+
+/** Height of the canvas bottom in physics space — where snapped gloves land */
+export function setGloveWorldFloor(y: number): void {
+  floorY = y
+  send({ type: 'floor', y })
+}
+
+/**
+ * Where a session recording or replay starts: the current setup sent again,
+ * every glove rehung at its start pose and reseeded from `seed`, and the step
+ * count back to 0.
+ */
+export function resetGloveWorld(seed: number): void {
+  sendConfigure()
+  step = 0
+  // No worker yet means no world to reset (and no snapshots to go stale)
+  if (!worker) return
+  generation++
+  send({ type: 'reset', seed, generation })
+}
+
+/** Log pointer inputs from here on (call right after resetGloveWorld) */
+export function startGloveWorldRecording(): void {
+  send({ type: 'record', recording: true })
+}
+
+/** Stop logging — resolves once the worker has handed the log over */
+export function stopGloveWorldRecording(): Promise<GloveWorldInputLog> {
+  if (!worker || failed) return Promise.resolve({ inputs: [], steps: 0 })
+  send({ type: 'record', recording: false })
+  return new Promise((resolve) => recordingRequests.push(resolve))
+}
+
+/**
+ * Feed a recorded log back in (right after resetGloveWorld): each input lands
+ * on its recorded step and live pointer input is ignored. [] ends the replay.
+ */
+export function replayGloveWorldInputs(inputs: GloveWorldStampedInput[]): void {
+  send({ type: 'replay', inputs })
+}
+
+/** Steps simulated since the last reset, as of the latest snapshot */
+export function getGloveWorldStep(): number {
+  return step
+}
+
+/** Whether the physics worker failed to start (Rapier's WASM didn't load, say) */
+export function hasGloveWorldFailed(): boolean {
+  return failed
+}
+
+export function subscribeGloveWorldFailure(fn: () => void): () => void {
+  failureListeners.add(fn)
+  return () => {
+    failureListeners.delete(fn)
+  }
+}
+
+/** Called after each snapshot with the simulated time it covered — for per-step logic on this thread */
+export function subscribeGloveWorldStep(fn: (dt: number) => void): () => void {
+  stepListeners.add(fn)
+  return () => {
+    stepListeners.delete(fn)
+  }
+}
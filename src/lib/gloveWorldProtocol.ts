@@ -0,0 +1,148 @@
+import type { ColliderRecipe, Vec3 } from '../types'
+
+// =============================================================================
+// GLOVE WORLD PROTOCOL — messages between lib/gloveWorld and its worker
+// The worker owns the Rapier world and steps it on its own clock; the render
+// thread sends the glove setup, per-frame inputs and pointer commands, and
+// receives a compact transform buffer (plus events) after every batch of steps.
+// All positions and velocities are in the gloves' shared physics space.
+// =============================================================================
+
+/** One hanging body as the worker builds it — colliders already in world units */
+export interface GloveBodyConfig {
+  id: string
+  /** Held here (facing yRotation) until the drop delay elapses */
+  startPosition: Vec3
+  yRotation: number
+  anchor: Vec3
+  stringLength: number
+  springStrength: number
+  /** Release or string-catch speed that snaps the rope (0 = unbreakable) */
+  breakingStrain: number
+  /** ms from creation before the drop-in (0 = drop straight away) */
+  dropDelay: number
+  /** -1 for mirrored props — their scroll sway goes the other way */
+  mirror: number
+  /** Settings.mass — given to every collider, as the old <RigidBody mass> did */
+  mass: number
+  restitution: number
+  friction: number
+  linearDamping: number
+  angularDamping: number
+  colliders: ColliderRecipe[]
+}
+
+export interface GloveWorldConfig {
+  gravity: number
+  /** Settings.scrollInertia multiplier for the scroll kick */
+  scrollInertia: number
+  /** prefers-reduced-motion: no scroll kick or wind */
+  reducedMotion: boolean
+  bodies: GloveBodyConfig[]
+}
+
+/** Sent every rendered frame */
+export interface GloveWorldInput {
+  /** World gravity — leaned by phone tilt */
+  gravity: Vec3
+  /** Weather wind acceleration (units/s²) */
+  wind: Vec3
+  /** Page scroll speed (viewport heights per frame) for the scroll kick */
+  scrollVelocity: number
+  /** A session is recording or replaying — leave out anything the log can't carry */
+  inSession: boolean
+}
+
+export type GloveWorldCommand =
+  | { type: 'configure'; config: GloveWorldConfig }
+  | { type: 'active'; active: boolean }
+  | { type: 'input'; input: GloveWorldInput }
+  | { type: 'grab'; id: string }
+  | { type: 'move'; id: string; position: Vec3 }
+  | { type: 'release'; id: string; velocity: Vec3 }
+  | { type: 'punch'; id: string; from: Vec3; to: Vec3 }
+  | { type: 'place'; id: string; position: Vec3 }
+  | { type: 'velocity'; id: string; linear: Vec3; angular: Vec3 }
+  /** A velocity change the visitor asked for (keyboard nudge or punch, phone shake) */
+  | { type: 'impulse'; id: string; linear: Vec3; angular: Vec3 }
+  | { type: 'reseed'; id: string; seed: number }
+  /** The pointer's kinematic ball — only collides while `solid` (a fast enough swipe) */
+  | { type: 'cursor'; position: Vec3; solid: boolean }
+  /** Height of the canvas bottom — the invisible floor a snapped glove bounces on */
+  | { type: 'floor'; y: number }
+  /** Hang a snapped glove back up: a fresh drop-in after its dropDelay */
+  | { type: 'rehang'; id: string }
+  /** Freeze the glove where it is (inspect mode) — it ignores every other command until resumed */
+  | { type: 'pause'; id: string; paused: boolean }
+  /** Every glove back to its start pose for a fresh drop-in, RNGs restarted from `seed`, step count back to 0 */
+  | { type: 'reset'; seed: number; generation: number }
+  /** Start logging the pointer inputs as they're applied — or stop and post the log back */
+  | { type: 'record'; recording: boolean }
+  /** Apply these inputs at their steps and ignore live ones — [] ends the replay and lets go of its gloves */
+  | { type: 'replay'; inputs: GloveWorldStampedInput[] }
+
+/** Visitor input on a glove — what a session recording captures */
+export type GloveWorldInputCommand = Extract<GloveWorldCommand, { type: 'grab' | 'move' | 'release' | 'punch' | 'impulse' }>
+
+/** An input and the step it was applied before, counted from the last reset */
+export type GloveWorldStampedInput = GloveWorldInputCommand & { step: number }
+
+export type GloveWorldEvent =
+  | { type: 'drop'; id: string }
+  | { type: 'bounce'; id: string; radialSpeed: number }
+  | { type: 'contact'; id: string; force: number }
+  /** A tap-punch reached full extension at `to` and handed the glove back to the rig */
+  | { type: 'jabLanded'; id: string; to: Vec3 }
+  /** The cursor collider batted this glove */
+  | { type: 'knock'; id: string; force: number }
+  /** The rope broke — on release or when the string caught the glove at `speed` */
+  | { type: 'snap'; id: string; speed: number }
+  /** Let go, or sent off on a jab, at `speed` units/s */
+  | { type: 'fling'; id: string; speed: number }
+  /** Put back at its start pose by a world reset */
+  | { type: 'reset'; id: string }
+
+export interface GloveWorldSnapshot {
+  type: 'snapshot'
+  /** Steps simulated since the last reset */
+  step: number
+  /** The last reset's `generation` — snapshots posted before it are stale */
+  generation: number
+  /** Body ids in buffer order */
+  ids: string[]
+  /** Fixed steps this snapshot covers */
+  steps: number
+  buffer: Float32Array
+  events: GloveWorldEvent[]
+}
+
+/** Rapier couldn't start in the worker — nothing will ever be simulated */
+export interface GloveWorldFailure {
+  type: 'error'
+  message: string
+}
+
+/** The answer to { type: 'record', recording: false } */
+export interface GloveWorldRecording {
+  type: 'recording'
+  inputs: GloveWorldStampedInput[]
+  /** Steps simulated from the reset to the end of the recording */
+  steps: number
+}
+
+export type GloveWorldMessage = GloveWorldSnapshot | GloveWorldFailure | GloveWorldRecording
+
+// Snapshot buffer layout — SNAPSHOT_STRIDE floats per body, in `ids` order
+export const SNAPSHOT_STRIDE = 16
+export const SNAPSHOT_POSITION = 0   // x, y, z
+export const SNAPSHOT_ROTATION = 3   // quaternion x, y, z, w
+export const SNAPSHOT_LINVEL = 7     // x, y, z
+export const SNAPSHOT_ANGVEL = 10    // x, y, z
+export const SNAPSHOT_TWIST = 13     // Rope wind-up (GloveRigState.twist)
+export const SNAPSHOT_SETTLED = 14   // GloveRigState.settledTime
+export const SNAPSHOT_FLAGS = 15     // SNAPSHOT_FLAG_* bits
+
+export const SNAPSHOT_FLAG_DROP_DELAY_ELAPSED = 1
+export const SNAPSHOT_FLAG_HAS_DROPPED = 2
+export const SNAPSHOT_FLAG_HELD = 4  // Dragged, mid tap-punch or paused
+export const SNAPSHOT_FLAG_SNAPPED = 8 // GloveRigState.snapped
@@ -0,0 +1,158 @@
+import * as THREE from 'three'
+import type { WeatherCondition, WeatherReading } from '../types'
+import { MOCK_WEATHER } from '../data/mockWeather'
+import { isSunUp, setSunTimes } from './solarTime'
+
+// =============================================================================
+// NYC WEATHER — one shared reading for the BottomBar and the hero scene
+// Polls a provider every 10 minutes while anything is subscribed. The provider
+// is Open-Meteo, or a MOCK_WEATHER preset when the URL asks for one
+// (?weather=rain, ?weather=blizzard, …) so every condition previews offline.
+// Also turns a reading into what the scene needs: precipitation kind and
+// intensity, a gusting wind acceleration, and how frosted the leather looks.
+// =============================================================================
+
+export interface NycWeather extends WeatherReading {
+  condition: WeatherCondition
+  isDaytime: boolean
+  loading: boolean
+}
+
+export type WeatherProvider = () => Promise<WeatherReading>
+
+const API_URL =
+  'https://api.open-meteo.com/v1/forecast?latitude=40.7128&longitude=-74.0060&current=temperature_2m,weather_code,wind_speed_10m,wind_direction_10m,precipitation&temperature_unit=fahrenheit&wind_speed_unit=mph&daily=sunrise,sunset&timezone=America%2FNew_York&forecast_days=1'
+
+const REFRESH_MS = 10 * 60_000
+
+// Scene response tuning
+const WIND_FULL_MPH = 35        // Wind speed that gives the full sway
+const WIND_MAX_ACCEL = 1.2      // Sway acceleration (units/s²) at WIND_FULL_MPH, before gusts
+const WIND_DEPTH_SHARE = 0.4    // Toward/away from the viewer reads as scaling — keep it subtle
+const RAIN_FULL_MM = 6          // Hourly precipitation for the heaviest rain
+const SNOW_FULL_MM = 3          // Snow reads heavy at much lower water equivalent
+const FROST_START_F = 36        // Leather starts to frost below this…
+const FROST_FULL_F = 12         // …and is fully frosted here
+
+/** Open-Meteo current conditions (also hands today's sunrise/sunset to lib/solarTime) */
+export const openMeteoProvider: WeatherProvider = async () => {
+  const res = await fetch(API_URL)
+  if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  const json = await res.json()
+  setSunTimes(json.daily?.sunrise?.[0], json.daily?.sunset?.[0])
+
+  const current = json.current ?? {}
+  const temp = Math.round(current.temperature_2m)
+  return {
+    temp: isNaN(temp) ? null : temp,
+    weatherCode: typeof current.weather_code === 'number' ? current.weather_code : null,
+    windSpeed: Number(current.wind_speed_10m) || 0,
+    windDirection: Number(current.wind_direction_10m) || 0,
+    precipitation: Number(current.precipitation) || 0,
+  }
+}
+
+export function mockWeatherProvider(name: string): WeatherProvider | null {
+  const reading = MOCK_WEATHER[name]
+  return reading ? () => Promise.resolve(reading) : null
+}
+
+function selectProvider(): WeatherProvider {
+  if (typeof window === 'undefined') return openMeteoProvider
+  const mock = new URLSearchParams(window.location.search).get('weather')
+  if (!mock) return openMeteoProvider
+  const provider = mockWeatherProvider(mock)
+  if (!provider) console.warn(`[weather] unknown mock "${mock}" — try one of: ${Object.keys(MOCK_WEATHER).join(', ')}`)
+  return provider ?? openMeteoProvider
+}
+
+/** WMO interpretation codes → the handful of looks the scene has */
+export function conditionFromCode(code: number | null): WeatherCondition {
+  if (code === null) return 'clear'
+  if (code >= 95) return 'storm'
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow'
+  if ((code >= 51 && code <= 67) || (code >= 80 && code <= 82)) return 'rain'
+  if (code === 45 || code === 48) return 'fog'
+  if (code >= 2) return 'cloudy'
+  return 'clear'
+}
+
+const provider = selectProvider()
+let weather: NycWeather = {
+  temp: null,
+  weatherCode: null,
+  windSpeed: 0,
+  windDirection: 0,
+  precipitation: 0,
+  condition: 'clear',
+  isDaytime: isSunUp(),
+  loading: true,
+}
+let lastFetched = -Infinity
+let interval: ReturnType<typeof setInterval> | null = null
+const listeners = new Set<() => void>()
+
+function publish(next: NycWeather) {
+  weather = next
+  listeners.forEach((fn) => fn())
+}
+
+async function refresh() {
+  lastFetched = Date.now()
+  try {
+    const reading = await provider()
+    publish({ ...reading, condition: conditionFromCode(reading.weatherCode), isDaytime: isSunUp(), loading: false })
+  } catch {
+    // Keep the last good reading; only the daylight flag moves on
+    publish({ ...weather, isDaytime: isSunUp(), loading: false })
+  }
+}
+
+export function getNycWeather(): NycWeather {
+  return weather
+}
+
+/** Subscribing starts the poll (fetching now if the reading is stale); the last unsubscribe stops it. */
+export function subscribeNycWeather(fn: () => void): () => void {
+  listeners.add(fn)
+  if (!interval) {
+    if (Date.now() - lastFetched >= REFRESH_MS) refresh()
+    interval = setInterval(refresh, REFRESH_MS)
+  }
+  return () => {
+    listeners.delete(fn)
+    if (listeners.size === 0 && interval) {
+      clearInterval(interval)
+      interval = null
+    }
+  }
+}
+
+/** Falling precipitation, if any, and how heavy it is (0–1) */
+export function precipitationOf(reading: NycWeather): { kind: 'rain' | 'snow' | null; intensity: number } {
+  if (reading.condition === 'snow') {
+    return { kind: 'snow', intensity: THREE.MathUtils.clamp(reading.precipitation / SNOW_FULL_MM, 0.3, 1) }
+  }
+  if (reading.condition === 'rain' || reading.condition === 'storm') {
+    return { kind: 'rain', intensity: THREE.MathUtils.clamp(reading.precipitation / RAIN_FULL_MM, 0.25, 1) }
+  }
+  return { kind: null, intensity: 0 }
+}
+
+/**
+ * Wind as a horizontal acceleration in the scene (units/s²) at `time` seconds.
+ * The viewer faces north, so a westerly pushes toward +x. Two slow sines make
+ * the gusts so the gloves sway rather than lean.
+ */
+export function windAccelAt(reading: NycWeather, time: number, out: THREE.Vector3): THREE.Vector3 {
+  const strength = Math.min(reading.windSpeed / WIND_FULL_MPH, 1) * WIND_MAX_ACCEL
+  const gust = 0.65 + 0.35 * Math.sin(time * 0.7) * Math.sin(time * 1.9 + 1)
+  const from = THREE.MathUtils.degToRad(reading.windDirection)
+  return out.set(-Math.sin(from), 0, Math.cos(from) * WIND_DEPTH_SHARE).multiplyScalar(strength * gust)
+}
+
+/** 0 (none) – 1 (fully frosted) from the air temperature */
+export function frostAmount(reading: NycWeather): number {
+  if (reading.temp === null) return 0
+  return THREE.MathUtils.smoothstep(FROST_START_F - reading.temp, 0, FROST_START_F - FROST_FULL_F)
+}
@@ -0,0 +1,83 @@
+import type { TuningPreset } from '../types'
+import { validateSettings, validateShadowSettings } from './settings'
+
+// =============================================================================
+// TUNING PRESETS — named presets in localStorage + the active one in the URL
+// Both sources are untrusted (hand-edited storage, links pasted from chat), so
+// everything read back goes through validateSettings/validateShadowSettings.
+// =============================================================================
+
+const STORAGE_KEY = 'glove-tuning-presets'
+export const PRESET_PARAM = 'preset'
+
+/** Validate an untrusted { settings, shadowSettings } pair. */
+export function validatePreset(input: unknown): TuningPreset {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>
+  return {
+    settings: validateSettings(source.settings),
+    shadowSettings: validateShadowSettings(source.shadowSettings),
+  }
+}
+
+/** URL-safe base64 of the preset JSON — values are ASCII (numbers + hex colors). */
+export function encodePreset(preset: TuningPreset): string {
+  return btoa(JSON.stringify(preset)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/** Inverse of encodePreset. Returns null (with a warning) when the string isn't a preset at all. */
+export function decodePreset(encoded: string): TuningPreset | null {
+  try {
+    const json = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+    return validatePreset(JSON.parse(json))
+  } catch {
+    console.warn(`[presets] could not decode "${encoded.slice(0, 24)}…" — ignoring`)
+    return null
+  }
+}
+
+export function readPresetFromUrl(): TuningPreset | null {
+  if (typeof window === 'undefined') return null
+  const encoded = new URLSearchParams(window.location.search).get(PRESET_PARAM)
+  return encoded ? decodePreset(encoded) : null
+}
+
+/** Replace (not push) the URL so tweaking a slider doesn't flood history. `null` removes the param. */
+export function writePresetToUrl(preset: TuningPreset | null): void {
+  const url = new URL(window.location.href)
+  if (preset) url.searchParams.set(PRESET_PARAM, encodePreset(preset))
+  else url.searchParams.delete(PRESET_PARAM)
+  window.history.replaceState(window.history.state, '', url)
+}
+
+export function loadSavedPresets(): Record<string, TuningPreset> {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as unknown
+    if (typeof raw !== 'object' || raw === null) return {}
+    const presets: Record<string, TuningPreset> = {}
+    for (const [name, value] of Object.entries(raw)) presets[name] = validatePreset(value)
+    return presets
+  } catch {
+    return {}
+  }
+}
+
+function storePresets(presets: Record<string, TuningPreset>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+  } catch {
+    console.warn('[presets] localStorage is unavailable — preset not saved')
+  }
+}
+
+export function savePreset(name: string, preset: TuningPreset): Record<string, TuningPreset> {
+  const presets = { ...loadSavedPresets(), [name]: preset }
+  storePresets(presets)
+  return presets
+}
+
+export function deletePreset(name: string): Record<string, TuningPreset> {
+  const presets = loadSavedPresets()
+  delete presets[name]
+  storePresets(presets)
+  return presets
+}
@@ -0,0 +1,50 @@
+// =============================================================================
+// QUALITY TIERS — what the Canvas governor steps through when frames drop
+// Tier 0 is the full look; each step down trades fidelity for frame time.
+// The current tier lives here (outside React) so the debug overlay in App can
+// read what the governor inside the Canvas decided.
+// =============================================================================
+
+export interface QualityTier {
+  name: string
+  /** Device pixel ratio range handed to setDpr */
+  dpr: [number, number]
+  /** Upper bound on the shadow map — ShadowSettings can ask for less, never more */
+  maxShadowMapSize: number
+  /** Tubular segments per rope tube */
+  ropeSegments: number
+  /** Image-based lighting from the Environment lightformers */
+  environment: boolean
+  /** PCFSoftShadowMap when true, plain PCFShadowMap otherwise */
+  softShadows: boolean
+  /** Rain/snow instances at full intensity (0 = no precipitation) */
+  weatherParticles: number
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'high', dpr: [1, 1.5], maxShadowMapSize: 2048, ropeSegments: 32, environment: true, softShadows: true, weatherParticles: 1500 },
+  { name: 'medium', dpr: [1, 1.25], maxShadowMapSize: 1024, ropeSegments: 24, environment: true, softShadows: true, weatherParticles: 1000 },
+  { name: 'low', dpr: [1, 1], maxShadowMapSize: 1024, ropeSegments: 16, environment: false, softShadows: false, weatherParticles: 500 },
+  { name: 'minimal', dpr: [0.75, 0.75], maxShadowMapSize: 512, ropeSegments: 12, environment: false, softShadows: false, weatherParticles: 0 },
+]
+
+let tierIndex = 0
+const listeners = new Set<(index: number) => void>()
+
+export function getQualityTierIndex(): number {
+  return tierIndex
+}
+
+export function setQualityTierIndex(next: number): void {
+  const clamped = Math.max(0, Math.min(QUALITY_TIERS.length - 1, next))
+  if (clamped === tierIndex) return
+  tierIndex = clamped
+  listeners.forEach((fn) => fn(tierIndex))
+}
+
+export function subscribeQualityTier(fn: (index: number) => void): () => void {
+  listeners.add(fn)
+  return () => {
+    listeners.delete(fn)
+  }
+}
@@ -0,0 +1,26 @@
+// =============================================================================
+// SEEDED RANDOM — small deterministic PRNG so physics "randomness" (bounce
+// wobble etc.) replays identically for the same seed.
+// =============================================================================
+
+/** mulberry32 — fast 32-bit PRNG. Returns floats in [0, 1), like Math.random. */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Stable 32-bit seed from a string (FNV-1a), e.g. a hanging object's id. */
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,124 @@
+import * as THREE from 'three'
+
+// =============================================================================
+// VERLET ROPE — position-based chain of particles hung between an anchor and a
+// glove. Framework-free so it can be stepped from useFrame or anywhere else.
+// =============================================================================
+
+export interface Rope {
+  /** Current particle positions — [0] is pinned to the anchor, [last] rides the glove */
+  positions: THREE.Vector3[]
+  /** Positions from the previous step (verlet velocity = current - previous) */
+  previous: THREE.Vector3[]
+  /** Rest length of each segment */
+  segmentLength: number
+}
+
+export interface RopeStepOptions {
+  /** Gravity along Y in units/s² (negative = down) */
+  gravity: number
+  /** Fraction of particle velocity kept per step (0–1) */
+  damping: number
+  /** Inverse mass of the glove end relative to a rope particle (0 = immovable) */
+  endInverseMass: number
+  /** Constraint solver iterations — more = stiffer rope */
+  iterations: number
+  /** Extra acceleration on the interior particles in units/s² (weather wind) */
+  wind?: THREE.Vector3
+  /** The rope has snapped — the last particle swings loose instead of riding `end` */
+  freeEnd?: boolean
+}
+
+const _delta = new THREE.Vector3()
+const _velocity = new THREE.Vector3()
+
+/** Build a rope of `nodeCount` particles laid out in a straight line from start to end. */
+export function createRope(start: THREE.Vector3, end: THREE.Vector3, nodeCount: number, length: number): Rope {
+  const positions: THREE.Vector3[] = []
+  const previous: THREE.Vector3[] = []
+  for (let i = 0; i < nodeCount; i++) {
+    positions.push(new THREE.Vector3())
+    previous.push(new THREE.Vector3())
+  }
+  const rope = { positions, previous, segmentLength: length / (nodeCount - 1) }
+  resetRope(rope, start, end)
+  return rope
+}
+
+/** Lay the rope out straight between start and end with zero velocity. */
+export function resetRope(rope: Rope, start: THREE.Vector3, end: THREE.Vector3): void {
+  const last = rope.positions.length - 1
+  for (let i = 0; i <= last; i++) {
+    rope.positions[i].lerpVectors(start, end, i / last)
+    rope.previous[i].copy(rope.positions[i])
+  }
+}
+
+/** Change the total rest length without disturbing the current shape. */
+export function setRopeLength(rope: Rope, length: number): void {
+  rope.segmentLength = length / (rope.positions.length - 1)
+}
+
+/**
+ * Advance the rope by `dt` seconds. The first particle is pinned to `anchor`
+ * and the last starts each step at `end` (the glove's attachment point).
+ *
+ * Returns (in `outCorrection`) how far the solver pulled the end particle away
+ * from `end` — the rope's tension and inertia acting on the glove. Callers turn
+ * that into a velocity change on the glove body so momentum flows both ways
+ * (zero with `freeEnd` — a snapped rope pulls on nothing).
+ */
+export function stepRope(
+  rope: Rope,
+  anchor: THREE.Vector3,
+  end: THREE.Vector3,
+  dt: number,
+  options: RopeStepOptions,
+  outCorrection: THREE.Vector3
+): THREE.Vector3 {
+  const { positions, previous, segmentLength } = rope
+  const last = positions.length - 1
+  const gravityStep = options.gravity * dt * dt
+  const wind = options.wind
+  const loose = options.freeEnd ? last + 1 : last
+
+  // Integrate interior particles, plus a loose end (verlet: x' = x + (x - x_prev) * damping + a·dt²)
+  for (let i = 1; i < loose; i++) {
+    const p = positions[i]
+    _velocity.subVectors(p, previous[i]).multiplyScalar(options.damping)
+    previous[i].copy(p)
+    p.add(_velocity)
+    p.y += gravityStep
+    if (wind) p.addScaledVector(wind, dt * dt)
+  }
+
+  // Pin both ends — the end particle may be nudged by the solver below
+  positions[0].copy(anchor)
+  previous[0].copy(anchor)
+  if (!options.freeEnd) {
+    previous[last].copy(positions[last])
+    positions[last].copy(end)
+  }
+
+  // Mass-weighted distance constraints (anchor is immovable, glove is heavy)
+  for (let iter = 0; iter < options.iterations; iter++) {
+    for (let i = 0; i < last; i++) {
+      const a = positions[i]
+      const b = positions[i + 1]
+      const wA = i === 0 ? 0 : 1
+      const wB = i + 1 === last && !options.freeEnd ? options.endInverseMass : 1
+      const wSum = wA + wB
+      if (wSum === 0) continue
+
+      _delta.subVectors(b, a)
+      const dist = _delta.length()
+      if (dist < 1e-6) continue
+      const diff = (dist - segmentLength) / (dist * wSum)
+      a.addScaledVector(_delta, diff * wA)
+      b.addScaledVector(_delta, -diff * wB)
+    }
+  }
+
+  if (options.freeEnd) return outCorrection.set(0, 0, 0)
+  return outCorrection.subVectors(positions[last], end)
+}
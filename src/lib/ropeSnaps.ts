@@ -0,0 +1,29 @@
+import { track } from '@vercel/analytics'
+
+// =============================================================================
+// ROPE SNAPS — how often visitors fling a glove hard enough to break its rope
+// HangingSpheres reports each snap (never during a session replay). The running
+// count is readable for anything on the page and goes to Vercel Web Analytics
+// as a 'Rope Snap' event with the glove id.
+// =============================================================================
+
+let count = 0
+const listeners = new Set<(count: number) => void>()
+
+export function recordRopeSnap(gloveId: string): void {
+  count++
+  track('Rope Snap', { glove: gloveId, count })
+  listeners.forEach((fn) => fn(count))
+}
+
+/** Snaps this page load */
+export function getRopeSnapCount(): number {
+  return count
+}
+
+export function subscribeRopeSnaps(fn: (count: number) => void): () => void {
+  listeners.add(fn)
+  return () => {
+    listeners.delete(fn)
+  }
+}
@@ -0,0 +1,171 @@
+import * as THREE from 'three'
+import type { Rope } from './rope'
+import type { RigBody } from './gloveRig'
+
+// =============================================================================
+// ROPE TANGLE — contact between the hanging props' ropes, and their braid
+// Each glove registers its rope and a collision sphere. After every rope step
+// the rope is pushed out of the other ropes and gloves (collideRope), so thrown
+// gloves wrap their strings around each other instead of passing through.
+// stepTangle watches how far each pair has wound around one another; once a
+// pair has stayed tangled for a while with nobody holding it, it's nudged back
+// the way it came so the hero always returns to its composed pose.
+// All positions are in the shared physics space.
+// =============================================================================
+
+export interface TangleMember {
+  rope: Rope
+  /** Center of the glove's collision sphere — the owner keeps it current */
+  gloveCenter: THREE.Vector3
+  gloveRadius: number
+  body: () => RigBody | null
+  /** The pointer (or a tap-punch) owns the glove — no untangling */
+  isHeld: () => boolean
+}
+
+const ROPE_CONTACT_RADIUS = 0.035 // Per rope — thicker than drawn so fast swings don't tunnel
+const TANGLE_WINDING = Math.PI * 0.75 // Pair winding (radians) that counts as tangled
+const UNTANGLE_DELAY = 6           // Seconds tangled and untouched before the untangle nudge
+const UNTANGLE_ACCEL = 1.5         // Tangential acceleration (units/s²) unwinding the pair
+
+const members = new Map<string, TangleMember>()
+const pairs = new Map<string, { angle: number; winding: number; tangledFor: number }>()
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _d1 = new THREE.Vector3()
+const _d2 = new THREE.Vector3()
+const _r = new THREE.Vector3()
+const _normal = new THREE.Vector3()
+
+export function registerTangleMember(id: string, member: TangleMember): () => void {
+  members.set(id, member)
+  return () => {
+    if (members.get(id) !== member) return
+    members.delete(id)
+    pairs.forEach((_, key) => {
+      if (key.split('|').includes(id)) pairs.delete(key)
+    })
+  }
+}
+
+/** Visit each glove's collision sphere — for effects that brush past the gloves (weather). */
+export function forEachGloveSphere(fn: (center: THREE.Vector3, radius: number) => void): void {
+  members.forEach((member) => fn(member.gloveCenter, member.gloveRadius))
+}
+
+// Closest points between segments p1–q1 and p2–q2 (Ericson, Real-Time Collision
+// Detection 5.1.9). Writes them to _a / _b and returns the parameter on the first.
+function closestPoints(p1: THREE.Vector3, q1: THREE.Vector3, p2: THREE.Vector3, q2: THREE.Vector3): number {
+  _d1.subVectors(q1, p1)
+  _d2.subVectors(q2, p2)
+  _r.subVectors(p1, p2)
+  const a = _d1.dot(_d1)
+  const e = _d2.dot(_d2)
+  const f = _d2.dot(_r)
+  let s = 0
+  let t = 0
+  if (a > 1e-9 && e > 1e-9) {
+    const c = _d1.dot(_r)
+    const b = _d1.dot(_d2)
+    const denom = a * e - b * b
+    s = denom > 1e-9 ? THREE.MathUtils.clamp((b * f - c * e) / denom, 0, 1) : 0
+    t = (b * s + f) / e
+    if (t < 0) {
+      t = 0
+      s = THREE.MathUtils.clamp(-c / a, 0, 1)
+    } else if (t > 1) {
+      t = 1
+      s = THREE.MathUtils.clamp((b - c) / a, 0, 1)
+    }
+  }
+  _a.copy(p1).addScaledVector(_d1, s)
+  _b.copy(p2).addScaledVector(_d2, t)
+  return s
+}
+
+/**
+ * Push `id`'s rope out of every other member's rope and glove. Only this rope
+ * moves, by half of each rope–rope overlap — the other rope takes the other
+ * half on its own step. The anchor and glove-end particles stay pinned.
+ */
+export function collideRope(id: string): void {
+  const self = members.get(id)
+  if (!self) return
+  const positions = self.rope.positions
+  const last = positions.length - 1
+
+  members.forEach((other, otherId) => {
+    if (otherId === id) return
+
+    // Rope–rope: segment pairs closer than two rope radii
+    const otherPositions = other.rope.positions
+    for (let i = 0; i < last; i++) {
+      for (let j = 0; j < otherPositions.length - 1; j++) {
+        const s = closestPoints(positions[i], positions[i + 1], otherPositions[j], otherPositions[j + 1])
+        _normal.subVectors(_a, _b)
+        const distance = _normal.length()
+        const overlap = ROPE_CONTACT_RADIUS * 2 - distance
+        if (overlap <= 0) continue
+        if (distance > 1e-6) _normal.divideScalar(distance)
+        else _normal.set(1, 0, 0)
+        const push = overlap * 0.5
+        if (i > 0) positions[i].addScaledVector(_normal, push * (1 - s))
+        if (i + 1 < last) positions[i + 1].addScaledVector(_normal, push * s)
+      }
+    }
+
+    // Rope–glove: the glove is far heavier, so the rope takes all of it
+    const minDistance = other.gloveRadius + ROPE_CONTACT_RADIUS
+    for (let i = 1; i < last; i++) {
+      _normal.subVectors(positions[i], other.gloveCenter)
+      const distance = _normal.length()
+      if (distance >= minDistance || distance < 1e-6) continue
+      positions[i].addScaledVector(_normal, (minDistance - distance) / distance)
+    }
+  })
+}
+
+/**
+ * Track each pair's winding and unwind pairs left tangled. Call once per
+ * physics step.
+ */
+export function stepTangle(dt: number): void {
+  const ids = [...members.keys()]
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const first = members.get(ids[i])!
+      const second = members.get(ids[j])!
+      const key = `${ids[i]}|${ids[j]}`
+
+      // Winding = how far the pair has orbited each other about the vertical,
+      // unwrapped so two full crossings read as 4π, not 0
+      _d1.subVectors(second.gloveCenter, first.gloveCenter)
+      const angle = Math.atan2(_d1.z, _d1.x)
+      let pair = pairs.get(key)
+      if (!pair) {
+        pair = { angle, winding: 0, tangledFor: 0 }
+        pairs.set(key, pair)
+      }
+      pair.winding += THREE.MathUtils.euclideanModulo(angle - pair.angle + Math.PI, Math.PI * 2) - Math.PI
+      pair.angle = angle
+
+      if (first.isHeld() || second.isHeld() || Math.abs(pair.winding) < TANGLE_WINDING) {
+        pair.tangledFor = 0
+        continue
+      }
+      pair.tangledFor += dt
+      if (pair.tangledFor < UNTANGLE_DELAY) continue
+
+      // Orbit the gloves back against the winding, about their midpoint
+      const firstBody = first.body()
+      const secondBody = second.body()
+      if (!firstBody || !secondBody) continue
+      _normal.set(-_d1.z, 0, _d1.x).normalize().multiplyScalar(-Math.sign(pair.winding) * UNTANGLE_ACCEL * dt)
+      const v1 = firstBody.linvel()
+      firstBody.setLinvel({ x: v1.x - _normal.x, y: v1.y, z: v1.z - _normal.z }, true)
+      const v2 = secondBody.linvel()
+      secondBody.setLinvel({ x: v2.x + _normal.x, y: v2.y, z: v2.z + _normal.z }, true)
+    }
+  }
+}
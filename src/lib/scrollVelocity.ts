@@ -0,0 +1,22 @@
+// =============================================================================
+// SCROLL VELOCITY — latest Lenis scroll speed, shared with the glove physics
+// App writes every Lenis 'scroll' event here; the physics reads it once per
+// step and turns changes in speed into inertial kicks on the rigid bodies.
+// =============================================================================
+
+/** Lenis stops emitting once scrolling settles — treat older samples as "stopped" */
+const STALE_MS = 100
+
+let velocity = 0 // Viewport heights per frame (Lenis reports px per frame)
+let sampledAt = 0
+
+/** Record a Lenis velocity sample (px per frame). */
+export function recordScrollVelocity(pxPerFrame: number): void {
+  velocity = typeof window !== 'undefined' ? pxPerFrame / window.innerHeight : 0
+  sampledAt = performance.now()
+}
+
+/** Current scroll speed in viewport heights per frame; 0 once Lenis has gone quiet. */
+export function readScrollVelocity(): number {
+  return performance.now() - sampledAt > STALE_MS ? 0 : velocity
+}
@@ -0,0 +1,269 @@
+import { forEachGloveController } from './gloveControls'
+import {
+  getGloveWorldStep,
+  hasGloveWorldFailed,
+  replayGloveWorldInputs,
+  resetGloveWorld,
+  startGloveWorldRecording,
+  stopGloveWorldRecording,
+} from './gloveWorld'
+import type { GloveWorldStampedInput } from './gloveWorldProtocol'
+
+// =============================================================================
+// SESSION RECORDING — capture and replay glove interaction as an event log
+// Recording and replay both start from a world reset (lib/gloveWorld): every
+// glove rehung and reseeded from the session seed, the physics step count at 0.
+// The physics worker logs the visitor inputs it applies (grab → move targets →
+// release velocity, or a jab in place of the release; keyboard and shake
+// impulses) with the step they went in before, and a replay applies them on
+// those same steps — so the gloves follow the same path however the frames fall.
+// Anything fed in per rendered frame rather than per step is off for the whole
+// session: wind, cursor swipes, phone tilt, the scroll kick and the rope's pull
+// back on the glove. App reports scroll progress, which replays on the
+// wall-clock timeline and only moves the page.
+//
+// Wire format (base64url JSON, ?combo=…):
+//   { v: 2, s: seed, d: durationMs, n: steps, ids: [objectId…], e: [[step, code, …args]], sc: [[t, progress]] }
+//   code 0 grab    [step, 0, idIndex]
+//   code 1 move    [step, 1, idIndex, x, y, z]
+//   code 2 release [step, 2, idIndex, vx, vy, vz]
+//   code 3 punch   [step, 3, idIndex, fromX, fromY, fromZ, toX, toY, toZ]
+//   code 4 impulse [step, 4, idIndex, vx, vy, vz, wx, wy, wz]
+// =============================================================================
+
+export const SESSION_FORMAT_VERSION = 2
+export const SESSION_PARAM = 'combo'
+
+/** A visitor input and the physics step it was applied before */
+export type SessionInput = GloveWorldStampedInput
+
+export interface ScrollSample {
+  /** Milliseconds from start */
+  t: number
+  progress: number
+}
+
+export interface SessionLog {
+  version: typeof SESSION_FORMAT_VERSION
+  /** Restarts every glove's seeded RNG when the session starts */
+  seed: number
+  /** Milliseconds from start to stop */
+  duration: number
+  /** Physics steps from start to stop */
+  steps: number
+  inputs: SessionInput[]
+  scroll: ScrollSample[]
+}
+
+export type SessionMode = 'idle' | 'recording' | 'replaying'
+
+/** Minimum gap between recorded scroll samples */
+const SCROLL_SAMPLE_MS = 50
+
+type WireEvent = number[]
+
+let mode: SessionMode = 'idle'
+let startedAt = 0
+let seed = 0
+let scroll: ScrollSample[] = []
+let lastScrollSample = -Infinity
+let stopReplay: (() => void) | null = null
+let scrollDriver: ((progress: number) => void) | null = null
+const listeners = new Set<(mode: SessionMode) => void>()
+
+function setMode(next: SessionMode) {
+  mode = next
+  listeners.forEach((fn) => fn(mode))
+}
+
+// The gloves' own RNGs on this thread, and the physics world from the top
+function resetGloves(sessionSeed: number) {
+  forEachGloveController((controller) => controller.reseed(sessionSeed))
+  resetGloveWorld(sessionSeed)
+}
+
+function round(v: number) {
+  return Math.round(v * 1000) / 1000
+}
+
+export function getSessionMode(): SessionMode {
+  return mode
+}
+
+export function isReplayingSession(): boolean {
+  return mode === 'replaying'
+}
+
+export function subscribeSession(fn: (mode: SessionMode) => void): () => void {
+  listeners.add(fn)
+  return () => {
+    listeners.delete(fn)
+  }
+}
+
+/** App registers how to scroll the page (Lenis) so replays can restore scroll progress. */
+export function setSessionScrollDriver(driver: ((progress: number) => void) | null): void {
+  scrollDriver = driver
+}
+
+/** Rehangs the gloves for a fresh drop-in and starts logging from there. */
+export function startRecording(): void {
+  if (mode !== 'idle') return
+  seed = (Math.random() * 0xffffffff) >>> 0
+  resetGloves(seed)
+  startGloveWorldRecording()
+  scroll = []
+  lastScrollSample = -Infinity
+  startedAt = performance.now()
+  setMode('recording')
+}
+
+/** Resolves once the physics worker has handed over its input log — null if nothing was recording. */
+export function stopRecording(): Promise<SessionLog | null> {
+  if (mode !== 'recording') return Promise.resolve(null)
+  const duration = Math.round(performance.now() - startedAt)
+  const samples = scroll
+  setMode('idle')
+  return stopGloveWorldRecording().then(({ inputs, steps }) => (
+    { version: SESSION_FORMAT_VERSION, seed, duration, steps, inputs, scroll: samples }
+  ))
+}
+
+/** Called on every Lenis scroll event — sampled, and a no-op unless recording. */
+export function recordScroll(progress: number): void {
+  if (mode !== 'recording') return
+  const t = performance.now() - startedAt
+  if (t - lastScrollSample < SCROLL_SAMPLE_MS) return
+  lastScrollSample = t
+  scroll.push({ t: Math.round(t), progress: round(progress) })
+}
+
+/** Play a session back: pointer input on its physics steps, scroll on its original timeline. Returns a cancel function. */
+export function replaySession(log: SessionLog, onDone?: () => void): () => void {
+  stopReplay?.()
+  if (mode === 'recording') void stopRecording()
+
+  resetGloves(log.seed)
+  replayGloveWorldInputs(log.inputs)
+  setMode('replaying')
+  const start = performance.now()
+  let next = 0
+  let frame = 0
+
+  const finish = () => {
+    cancelAnimationFrame(frame)
+    replayGloveWorldInputs([])
+    stopReplay = null
+    setMode('idle')
+  }
+
+  // Done once the scroll has played out and the worker is past the last
+  // recorded step (it only steps while the hero is on screen). A failed worker
+  // never steps, so then the scroll timeline alone decides
+  const tick = () => {
+    const elapsed = performance.now() - start
+    while (next < log.scroll.length && log.scroll[next].t <= elapsed) {
+      scrollDriver?.(log.scroll[next++].progress)
+    }
+    const stepped = hasGloveWorldFailed() || getGloveWorldStep() >= log.steps
+    if (next >= log.scroll.length && elapsed >= log.duration && stepped) {
+      finish()
+      onDone?.()
+      return
+    }
+    frame = requestAnimationFrame(tick)
+  }
+  frame = requestAnimationFrame(tick)
+
+  stopReplay = finish
+  return finish
+}
+
+// Input values go out unrounded — the replay has to feed the worker exactly
+// what it saw
+export function encodeSession(log: SessionLog): string {
+  const ids: string[] = []
+  const idIndex = (id: string) => {
+    const i = ids.indexOf(id)
+    return i === -1 ? ids.push(id) - 1 : i
+  }
+  const wire: WireEvent[] = log.inputs.map((input) => {
+    switch (input.type) {
+      case 'grab': return [input.step, 0, idIndex(input.id)]
+      case 'move': return [input.step, 1, idIndex(input.id), ...input.position]
+      case 'release': return [input.step, 2, idIndex(input.id), ...input.velocity]
+      case 'punch': return [input.step, 3, idIndex(input.id), ...input.from, ...input.to]
+      case 'impulse': return [input.step, 4, idIndex(input.id), ...input.linear, ...input.angular]
+    }
+  })
+  const samples = log.scroll.map((sample) => [sample.t, sample.progress])
+  const json = JSON.stringify({ v: log.version, s: log.seed, d: log.duration, n: log.steps, ids, e: wire, sc: samples })
+  return btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function isFiniteNumbers(values: unknown[]): values is number[] {
+  return values.every((v) => typeof v === 'number' && Number.isFinite(v))
+}
+
+/** Inverse of encodeSession. Returns null (with a warning) for unknown versions or malformed logs. */
+export function decodeSession(encoded: string): SessionLog | null {
+  try {
+    const raw = JSON.parse(atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))) as Record<string, unknown>
+    if (raw.v !== SESSION_FORMAT_VERSION) {
+      console.warn(`[session] unsupported format version ${JSON.stringify(raw.v)}`)
+      return null
+    }
+    const ids = raw.ids as unknown[]
+    const wire = raw.e as unknown[]
+    const samples = raw.sc as unknown[]
+    if (!Array.isArray(ids) || !Array.isArray(wire) || !Array.isArray(samples) || !isFiniteNumbers([raw.s, raw.d, raw.n])) {
+      throw new Error('shape')
+    }
+
+    const inputs: SessionInput[] = []
+    for (const entry of wire) {
+      if (!Array.isArray(entry) || !isFiniteNumbers(entry)) throw new Error('event')
+      const [step, code, a, ...args] = entry
+      const id = ids[a]
+      if (typeof id !== 'string') continue
+      const [x, y, z] = args
+      if (code === 0 && args.length === 0) inputs.push({ step, type: 'grab', id })
+      else if (code === 1 && args.length === 3) inputs.push({ step, type: 'move', id, position: [x, y, z] })
+      else if (code === 2 && args.length === 3) inputs.push({ step, type: 'release', id, velocity: [x, y, z] })
+      else if (code === 3 && args.length === 6) inputs.push({ step, type: 'punch', id, from: [x, y, z], to: [args[3], args[4], args[5]] })
+      else if (code === 4 && args.length === 6) inputs.push({ step, type: 'impulse', id, linear: [x, y, z], angular: [args[3], args[4], args[5]] })
+    }
+    const scrollSamples: ScrollSample[] = []
+    for (const sample of samples) {
+      if (!Array.isArray(sample) || sample.length !== 2 || !isFiniteNumbers(sample)) throw new Error('scroll')
+      scrollSamples.push({ t: sample[0], progress: Math.max(0, Math.min(1, sample[1])) })
+    }
+    // Stable sorts, so inputs on the same step keep their recorded order
+    inputs.sort((p, q) => p.step - q.step)
+    scrollSamples.sort((p, q) => p.t - q.t)
+    return {
+      version: SESSION_FORMAT_VERSION,
+      seed: (raw.s as number) >>> 0,
+      duration: raw.d as number,
+      steps: raw.n as number,
+      inputs,
+      scroll: scrollSamples,
+    }
+  } catch {
+    console.warn('[session] could not decode combo — ignoring')
+    return null
+  }
+}
+
+export function readSessionFromUrl(): SessionLog | null {
+  if (typeof window === 'undefined') return null
+  const encoded = new URLSearchParams(window.location.search).get(SESSION_PARAM)
+  return encoded ? decodeSession(encoded) : null
+}
+
+/** Shareable link that replays `log` when opened. */
+export function sessionUrl(log: SessionLog): string {
+  const url = new URL(window.location.href)
+  url.searchParams.set(SESSION_PARAM, encodeSession(log))
+  return url.toString()
+}
@@ -0,0 +1,93 @@
+import type { Settings, ShadowSettings } from '../types'
+
+// =============================================================================
+// SETTINGS SCHEMA — runtime validation for glove presets
+// Presets come from code today and from the tuning panel / share URLs later, so
+// every field is checked at the boundary: numbers are clamped to a sane range,
+// colors must be hex, and anything unusable falls back to the default. Problems
+// are reported with console.warn rather than thrown so the scene always mounts.
+// =============================================================================
+
+export type NumberRule = { type: 'number'; min: number; max: number; default: number; step?: number }
+export type ColorRule = { type: 'color'; default: string }
+type FieldRule = NumberRule | ColorRule
+type Schema<T> = { [K in keyof T]: T[K] extends number ? NumberRule : ColorRule }
+
+export const SETTINGS_SCHEMA: Schema<Settings> = {
+  // Ball
+  color: { type: 'color', default: '#ffffff' },
+  metalness: { type: 'number', min: 0, max: 1, default: 1 },
+  roughness: { type: 'number', min: 0, max: 1, default: 1 },
+  envMapIntensity: { type: 'number', min: 0, max: 5, default: 1 },
+  radius: { type: 'number', min: 0.1, max: 1.5, default: 0.525 },
+  // Physics
+  mass: { type: 'number', min: 0.1, max: 20, default: 1.2 },
+  restitution: { type: 'number', min: 0, max: 1, default: 0.6 },
+  friction: { type: 'number', min: 0, max: 2, default: 0.1 },
+  linearDamping: { type: 'number', min: 0, max: 10, default: 1 },
+  gravity: { type: 'number', min: -50, max: 0, default: -9.81 },
+  springStrength: { type: 'number', min: 0, max: 50, default: 5 },
+  scrollInertia: { type: 'number', min: 0, max: 5, default: 1 },
+  cursorSensitivity: { type: 'number', min: 0, max: 1, default: 0.5 },
+  // String
+  stringLength: { type: 'number', min: 0.5, max: 5, default: 2.5 },
+  stringThickness: { type: 'number', min: 0.005, max: 0.1, default: 0.028 },
+  stringColor: { type: 'color', default: '#2a2a2a' },
+  ropeDamping: { type: 'number', min: 0.5, max: 1, default: 0.98 },
+  breakingStrain: { type: 'number', min: 0, max: 60, default: 25 },
+}
+
+export const SHADOW_SETTINGS_SCHEMA: Schema<ShadowSettings> = {
+  lightX: { type: 'number', min: -20, max: 20, default: 0 },
+  lightY: { type: 'number', min: -20, max: 20, default: 2.5 },
+  lightZ: { type: 'number', min: 0, max: 30, default: 10 },
+  shadowMapSize: { type: 'number', min: 256, max: 4096, default: 2048, step: 256 },
+  shadowCameraBounds: { type: 'number', min: 1, max: 20, default: 8 },
+  shadowCameraFar: { type: 'number', min: 5, max: 100, default: 30 },
+  shadowRadius: { type: 'number', min: 0, max: 50, default: 4 },
+  shadowBias: { type: 'number', min: -0.01, max: 0.01, default: -0.0001, step: 0.00005 },
+  shadowOpacity: { type: 'number', min: 0, max: 1, default: 0.08 },
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i
+
+function validateField(key: string, rule: FieldRule, value: unknown): number | string {
+  if (rule.type === 'color') {
+    if (typeof value === 'string' && HEX_COLOR.test(value)) return value
+    console.warn(`[settings] ${key}: expected a hex color, got ${JSON.stringify(value)} — using ${rule.default}`)
+    return rule.default
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    console.warn(`[settings] ${key}: expected a number, got ${JSON.stringify(value)} — using ${rule.default}`)
+    return rule.default
+  }
+  if (value < rule.min || value > rule.max) {
+    const clamped = Math.min(rule.max, Math.max(rule.min, value))
+    console.warn(`[settings] ${key}: ${value} is outside [${rule.min}, ${rule.max}] — clamped to ${clamped}`)
+    return clamped
+  }
+  return value
+}
+
+function validate<T>(schema: Schema<T>, input: unknown): T {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>
+  const result = {} as Record<string, number | string>
+  for (const [key, rule] of Object.entries(schema) as [string, FieldRule][]) {
+    result[key] = key in source ? validateField(key, rule, source[key]) : rule.default
+  }
+  return result as T
+}
+
+/**
+ * Validate an untrusted preset. Returns a complete Settings object with every
+ * field in range; missing or malformed fields fall back to schema defaults.
+ */
+export function validateSettings(input: unknown): Settings {
+  return validate(SETTINGS_SCHEMA, input)
+}
+
+/** Same contract as validateSettings, for the light/shadow rig. */
+export function validateShadowSettings(input: unknown): ShadowSettings {
+  return validate(SHADOW_SETTINGS_SCHEMA, input)
+}
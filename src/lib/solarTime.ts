@@ -0,0 +1,167 @@
+// =============================================================================
+// SOLAR TIME — where the NYC sun is, as a lighting blend for the glove hero
+// Times are minutes past midnight on the NYC wall clock. useNycWeather feeds in
+// today's Open-Meteo sunrise/sunset; until it does (or when offline) they're
+// approximated from the date. Scene reads getSolarLighting() every frame and
+// layers the scroll-driven dusk on top of it.
+//
+// Preview any time with ?now=HH:MM (24h, NYC) or ?now=<phase>, e.g. ?now=golden.
+// =============================================================================
+
+export type SolarPhase = 'night' | 'dawn' | 'day' | 'golden' | 'dusk'
+
+export interface SunTimes {
+  sunrise: number
+  sunset: number
+}
+
+export interface SolarLighting {
+  phase: SolarPhase
+  /** 0 = daylight look, 1 = full dusk look (same scale as gloveDuskRef) */
+  dusk: number
+  /** 0–1 — how far the dusk palette has cooled to moonlight */
+  night: number
+}
+
+const NYC_LATITUDE = 40.7128
+const NYC_LONGITUDE = -74.006
+const TWILIGHT_MINUTES = 45 // Either side of sunrise, and after sunset
+const GOLDEN_MINUTES = 75   // Golden hour before sunset
+const DAWN_DUSK = 0.55      // Dusk blend at the moment of sunrise
+const SUNSET_DUSK = 0.45    // Dusk blend at the moment of sunset (end of golden hour)
+const REFRESH_MS = 30_000   // How often the blend target follows the clock
+const EASE_SECONDS = 4      // Time constant when the target moves (new sun times, clock ticks)
+
+const nycFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+})
+
+function nycMinutes(date: Date): number {
+  const parts = nycFormatter.formatToParts(date)
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0)
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0)
+  return hour * 60 + minute
+}
+
+/**
+ * Sunrise/sunset from the date alone — solar declination plus the NYC clock
+ * offset. Ignores the equation of time, so it can be ~15 minutes out; it only
+ * stands in until the Open-Meteo times arrive.
+ */
+function approximateSunTimes(date: Date): SunTimes {
+  const rad = Math.PI / 180
+  const dayOfYear = Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 0)) / 86_400_000)
+  const declination = -23.44 * rad * Math.cos(((2 * Math.PI) / 365) * (dayOfYear + 10))
+  const latitude = NYC_LATITUDE * rad
+  const cosHourAngle = (Math.sin(-0.833 * rad) - Math.sin(latitude) * Math.sin(declination)) /
+    (Math.cos(latitude) * Math.cos(declination))
+  const halfDay = (Math.acos(Math.min(1, Math.max(-1, cosHourAngle))) / rad) * 4
+
+  // Clock offset from UTC (EST −300 / EDT −240) puts solar noon on the NYC clock
+  const utc = date.getUTCHours() * 60 + date.getUTCMinutes()
+  const offset = ((nycMinutes(date) - utc + 720 + 1440) % 1440) - 720
+  const solarNoon = 720 - 4 * NYC_LONGITUDE + offset
+  return { sunrise: solarNoon - halfDay, sunset: solarNoon + halfDay }
+}
+
+// Representative moment of each phase, for ?now=<phase>
+function phaseMinutes(phase: SolarPhase, sun: SunTimes): number {
+  switch (phase) {
+    case 'night': return 0
+    case 'dawn': return sun.sunrise
+    case 'day': return (sun.sunrise + sun.sunset) / 2
+    case 'golden': return sun.sunset - GOLDEN_MINUTES / 2
+    case 'dusk': return sun.sunset + TWILIGHT_MINUTES / 2
+  }
+}
+
+const PHASES: SolarPhase[] = ['night', 'dawn', 'day', 'golden', 'dusk']
+
+function readOverride(): string | null {
+  if (typeof window === 'undefined') return null
+  return new URLSearchParams(window.location.search).get('now')
+}
+
+const override = readOverride()
+let sunTimes: SunTimes | null = null
+let target: SolarLighting | null = null
+let targetAt = -Infinity
+const current: SolarLighting = { phase: 'day', dusk: 0, night: 0 }
+let easedAt = -Infinity
+
+function getSunTimes(): SunTimes {
+  return sunTimes ?? approximateSunTimes(new Date())
+}
+
+/** Minutes past midnight in NYC right now — or the ?now= override. */
+export function nowMinutes(): number {
+  const sun = getSunTimes()
+  if (override) {
+    if ((PHASES as string[]).includes(override)) return phaseMinutes(override as SolarPhase, sun)
+    const match = /^(\d{1,2}):(\d{2})$/.exec(override)
+    if (match && Number(match[1]) < 24 && Number(match[2]) < 60) return Number(match[1]) * 60 + Number(match[2])
+  }
+  return nycMinutes(new Date())
+}
+
+/** Today's sunrise/sunset as NYC local ISO strings ("2026-10-18T07:12"), from Open-Meteo. */
+export function setSunTimes(sunrise: string | undefined, sunset: string | undefined): void {
+  const toMinutes = (iso: string | undefined) => {
+    const match = /T(\d{2}):(\d{2})/.exec(iso ?? '')
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null
+  }
+  const rise = toMinutes(sunrise)
+  const set = toMinutes(sunset)
+  if (rise === null || set === null || set <= rise) return
+  sunTimes = { sunrise: rise, sunset: set }
+  targetAt = -Infinity
+}
+
+export function isSunUp(): boolean {
+  const sun = getSunTimes()
+  const now = nowMinutes()
+  return now >= sun.sunrise && now < sun.sunset
+}
+
+// Piecewise-linear blend between the phase keyframes
+function computeSolarLighting(now: number, sun: SunTimes): SolarLighting {
+  const dawnStart = sun.sunrise - TWILIGHT_MINUTES
+  const dawnEnd = sun.sunrise + TWILIGHT_MINUTES
+  const goldenStart = sun.sunset - GOLDEN_MINUTES
+  const duskEnd = sun.sunset + TWILIGHT_MINUTES
+  const ramp = (from: number, to: number, a: number, b: number) => a + (b - a) * Math.min(1, Math.max(0, (now - from) / (to - from)))
+
+  if (now < dawnStart || now >= duskEnd) return { phase: 'night', dusk: 1, night: 1 }
+  if (now < sun.sunrise) return { phase: 'dawn', dusk: ramp(dawnStart, sun.sunrise, 1, DAWN_DUSK), night: ramp(dawnStart, sun.sunrise, 1, 0) }
+  if (now < dawnEnd) return { phase: 'dawn', dusk: ramp(sun.sunrise, dawnEnd, DAWN_DUSK, 0), night: 0 }
+  if (now < goldenStart) return { phase: 'day', dusk: 0, night: 0 }
+  if (now < sun.sunset) return { phase: 'golden', dusk: ramp(goldenStart, sun.sunset, 0, SUNSET_DUSK), night: 0 }
+  return { phase: 'dusk', dusk: ramp(sun.sunset, duskEnd, SUNSET_DUSK, 1), night: ramp(sun.sunset, duskEnd, 0, 1) }
+}
+
+/**
+ * Current solar lighting blend. Cheap enough to call every frame: the target
+ * follows the clock every REFRESH_MS and the returned values ease toward it, so
+ * late-arriving sun times never snap the lights. The first call starts settled.
+ * The returned object is shared — read it, don't keep it.
+ */
+export function getSolarLighting(): Readonly<SolarLighting> {
+  const time = performance.now()
+  if (time - targetAt > REFRESH_MS) {
+    const first = target === null
+    target = computeSolarLighting(nowMinutes(), getSunTimes())
+    targetAt = time
+    if (first) Object.assign(current, target)
+  }
+  const k = 1 - Math.exp(-Math.max(0, time - easedAt) / 1000 / EASE_SECONDS)
+  easedAt = time
+  current.phase = target!.phase
+  current.dusk += (target!.dusk - current.dusk) * k
+  current.night += (target!.night - current.night) * k
+  if (Math.abs(current.dusk - target!.dusk) < 1e-3) current.dusk = target!.dusk
+  if (Math.abs(current.night - target!.night) < 1e-3) current.night = target!.night
+  return current
+}
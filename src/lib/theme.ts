@@ -0,0 +1,94 @@
+import type { ThemeMode, ThemePreference } from '../types'
+
+// =============================================================================
+// THEME — the page's light/dark mode
+// Module store read by App (and through it every themed component and the
+// Scene). 'system' follows prefers-color-scheme live; an explicit choice from
+// ThemeToggle is saved to localStorage. The resolved mode is mirrored onto
+// <html data-theme> so the CSS custom properties in index.css switch with it
+// (index.html applies the saved choice before first paint).
+// =============================================================================
+
+export const THEME_STORAGE_KEY = 'theme'
+const QUERY = '(prefers-color-scheme: dark)'
+
+const PREFERENCES: ThemePreference[] = ['system', 'light', 'dark']
+
+// index.css palette for each mode — inverted keeps the light canvas
+const DATA_THEME: Record<ThemeMode, string | null> = {
+  light: null,
+  inverted: null,
+  dark: 'dark',
+  darkInverted: 'darker',
+}
+
+function readStored(): ThemePreference {
+  try {
+    const stored = localStorage.getItem(THEME_STORAGE_KEY)
+    return PREFERENCES.includes(stored as ThemePreference) ? (stored as ThemePreference) : 'system'
+  } catch {
+    return 'system'
+  }
+}
+
+const media = typeof window !== 'undefined' ? window.matchMedia(QUERY) : null
+let preference: ThemePreference = readStored()
+let mode: ThemeMode = resolve()
+const listeners = new Set<() => void>()
+
+function resolve(): ThemeMode {
+  if (preference === 'system') return media?.matches ? 'dark' : 'light'
+  return preference
+}
+
+function applyToDocument() {
+  if (typeof document === 'undefined') return
+  const root = document.documentElement
+  const dataTheme = DATA_THEME[mode]
+  if (dataTheme) root.dataset.theme = dataTheme
+  else delete root.dataset.theme
+  root.style.colorScheme = dataTheme ? 'dark' : 'light'
+}
+
+function commit() {
+  mode = resolve()
+  applyToDocument()
+  listeners.forEach((fn) => fn())
+}
+
+applyToDocument()
+media?.addEventListener('change', () => {
+  if (preference === 'system') commit()
+})
+
+export function getThemeMode(): ThemeMode {
+  return mode
+}
+
+export function getThemePreference(): ThemePreference {
+  return preference
+}
+
+/** Pick a theme ('system' forgets the saved choice and follows the OS again). */
+export function setThemePreference(next: ThemePreference): void {
+  preference = next
+  try {
+    if (next === 'system') localStorage.removeItem(THEME_STORAGE_KEY)
+    else localStorage.setItem(THEME_STORAGE_KEY, next)
+  } catch {
+    console.warn('[theme] localStorage is unavailable — the choice will not persist')
+  }
+  commit()
+}
+
+/** Next choice in the toggle's cycle: system → light → dark → system */
+export function nextThemePreference(current: ThemePreference): ThemePreference {
+  return PREFERENCES[(PREFERENCES.indexOf(current) + 1) % PREFERENCES.length]
+}
+
+export function subscribeTheme(fn: () => void): () => void {
+  listeners.add(fn)
+  return () => {
+    listeners.delete(fn)
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * True when the browser can create a WebGL context (WebGL2 or WebGL1).
+ * The probe context is released immediately so it doesn't count against
+ * the browser's live-context limit.
+ */
+export function isWebGLAvailable(): boolean {
+  if (typeof document === 'undefined') return false
+  try {
+    const canvas = document.createElement('canvas')
+    const gl = canvas.getContext('webgl2') ?? canvas.getContext('webgl')
+    if (!gl) return false
+    gl.getExtension('WEBGL_lose_context')?.loseContext()
+    return true
+  } catch {
+    return false
+  }
+}
@@ -59,11 +59,14 @@ export interface Settings {
   linearDamping: number
   gravity: number
   springStrength: number
+  scrollInertia: number
+  cursorSensitivity: number
   // String
   stringLength: number
   stringThickness: number
   stringColor: string
   ropeDamping: number
+  breakingStrain: number
 }
 
 export interface ShadowSettings {
@@ -78,10 +81,97 @@ export interface ShadowSettings {
   shadowOpacity: number
 }
 
+/** Everything the tuning panel edits — what gets saved, shared and restored as one "feel" */
+export interface TuningPreset {
+  settings: Settings
+  shadowSettings: ShadowSettings
+}
+
+/** Material finish for the glove leather — see GLOVE_FINISHES */
+export type GloveFinish = 'matte' | 'satin' | 'patent'
+
+/** Visitor-chosen look for the gloves (GloveCustomizer) — persisted and shareable */
+export interface GloveCustomization {
+  /** Leather colorway — replaces the baked red panels */
+  leather: string
+  /** Wrist cuff color */
+  cuff: string
+  /** Up to three letters stitched on the cuff ('' for none) */
+  monogram: string
+  finish: GloveFinish
+}
+
+/** What the hero scene reacts to — derived from the WMO weather code */
+export type WeatherCondition = 'clear' | 'cloudy' | 'fog' | 'rain' | 'snow' | 'storm'
+
+/** One reading from a weather provider (Open-Meteo, or a mock preset) */
+export interface WeatherReading {
+  /** °F */
+  temp: number | null
+  /** WMO weather interpretation code */
+  weatherCode: number | null
+  /** mph, 10 m above ground */
+  windSpeed: number
+  /** Degrees the wind blows FROM (meteorological convention) */
+  windDirection: number
+  /** mm over the preceding hour */
+  precipitation: number
+}
+
+// Hanging-object manifest — one entry per prop on a rope (gloves, speed bag, …).
+// Collider and model dimensions are multiples of Settings.radius so a preset
+// can rescale every prop at once.
+
+export type Vec3 = [number, number, number]
+
+export type ColliderRecipe =
+  | { shape: 'cuboid'; halfExtents: Vec3; position?: Vec3; rotation?: Vec3 }
+  | { shape: 'ball'; radius: number; position?: Vec3 }
+  | { shape: 'cylinder'; halfHeight: number; radius: number; position?: Vec3; rotation?: Vec3 }
+
+export interface HangingObjectConfig {
+  id: string
+  /** Human-readable name, e.g. "Left glove" */
+  label: string
+  /** GLB model URL (Draco-compressed meshes supported) */
+  modelUrl: string
+  /** Uniform model scale, in multiples of Settings.radius */
+  modelScale: number
+  /** Model offset from the body center, in multiples of Settings.radius */
+  modelOffset: Vec3
+  /** Mesh names that take the Settings.color tint (all meshes when omitted) */
+  tintMeshes?: string[]
+  /** Compound collider, in multiples of Settings.radius */
+  colliders: ColliderRecipe[]
+  /** Where the rope is tied, in world units */
+  anchor: Vec3
+  /** Rope attachment on the object (local, multiples of Settings.radius) */
+  ropeAttach: Vec3
+  /** Rope length relative to Settings.stringLength (world units, may be negative) */
+  ropeLengthOffset: number
+  /** Delay in ms before the object drops in */
+  dropDelay: number
+  /** Resting Y rotation in radians */
+  yRotation: number
+  /** Mirror the collider/attach recipe across X (e.g. a left glove from a right-hand recipe) */
+  mirrored: boolean
+  /** Which of the hero's per-glove scroll rotations turns this object (none when omitted) */
+  scrollSway?: 'left' | 'right'
+}
+
+export interface HangingSceneManifest {
+  /** Off-screen point every rope runs up to, so shadows stay one continuous curve */
+  ropeOrigin: Vec3
+  objects: HangingObjectConfig[]
+}
+
 // Theme types
 
 export type ThemeMode = 'light' | 'inverted' | 'dark' | 'darkInverted'
 
+/** The visitor's theme choice — 'system' follows prefers-color-scheme */
+export type ThemePreference = 'system' | 'light' | 'dark'
+
 export type CardVariant = 'blue' | 'white' | 'red' | 'cta'
 
 export interface VariantStyle {
@@ -0,0 +1,620 @@
+import RAPIER from '@dimforge/rapier3d-compat'
+import * as THREE from 'three'
+import type { ColliderRecipe, Vec3 } from '../types'
+import { JAB_DURATION, PHYSICS_TIMESTEP } from '../constants/physics'
+import { createGloveRigState, stepGloveRig, type GloveRigParams, type GloveRigState } from '../lib/gloveRig'
+import { mulberry32, seedFromString } from '../lib/random'
+import {
+  SNAPSHOT_ANGVEL,
+  SNAPSHOT_FLAGS,
+  SNAPSHOT_FLAG_DROP_DELAY_ELAPSED,
+  SNAPSHOT_FLAG_HAS_DROPPED,
+  SNAPSHOT_FLAG_HELD,
+  SNAPSHOT_FLAG_SNAPPED,
+  SNAPSHOT_LINVEL,
+  SNAPSHOT_POSITION,
+  SNAPSHOT_ROTATION,
+  SNAPSHOT_SETTLED,
+  SNAPSHOT_STRIDE,
+  SNAPSHOT_TWIST,
+  type GloveBodyConfig,
+  type GloveWorldCommand,
+  type GloveWorldConfig,
+  type GloveWorldEvent,
+  type GloveWorldInput,
+  type GloveWorldInputCommand,
+  type GloveWorldMessage,
+  type GloveWorldStampedInput,
+} from '../lib/gloveWorldProtocol'
+
+// =============================================================================
+// GLOVE WORLD WORKER — the Rapier simulation for the hanging gloves
+// Steps at the fixed PHYSICS_TIMESTEP on the worker's own clock, so scroll
+// jank on the render thread no longer holds the physics back (or the other
+// way round). Per step: the drop delay, tap-punch, the glove rig (lib/gloveRig),
+// the scroll kick and the weather wind, then world.step — with the pointer in
+// the world as a kinematic ball that bats the gloves on a fast swipe, and a
+// floor at the canvas bottom that only gloves on a snapped rope land on. After every batch of
+// steps the bodies go back to lib/gloveWorld as one transferable buffer.
+// Session recording counts steps from a reset: visitor inputs are logged with
+// the step they were applied before, and a replay applies them at those steps.
+// =============================================================================
+
+const STEP_MS = PHYSICS_TIMESTEP * 1000
+const MAX_STEPS_PER_TICK = 4         // Catch-up cap after the worker was starved
+const JAB_RECOIL_SPEED = 2.5         // Units/s back toward the start when the physics takes over
+const FLING_YAW_KEEP = 0.2           // Share of yaw spin kept when a glove is let go
+const CURSOR_RADIUS = 0.15           // The pointer's invisible ball
+const SNAP_TUMBLE = 6                // Max random spin (rad/s per axis) added when the rope snaps
+const FLOOR_RESTITUTION = 0.5
+const FLOOR_HALF_EXTENTS: Vec3 = [50, 1, 50]
+
+// Collision groups (membership << 16 | filter): the floor only meets gloves on
+// a snapped rope, so a low swing never scuffs it
+const HANGING_GROUPS = 0xfffb_fffd
+const SNAPPED_GROUPS = 0xffff_ffff
+const FLOOR_GROUPS = 0x0002_0004
+
+// The rig, jab, scroll kick and wind all change velocity directly, so they feel
+// the same whatever Settings.mass is; mass only weighs in glove-on-glove hits
+// and the contact force HangingSpheres turns into thump volume.
+
+// Page scroll inertia — glove velocity change (units/s) per change in scroll speed
+// (viewport heights per frame), before the Settings.scrollInertia multiplier.
+// Speeding up pushes the gloves up (they lag behind the page), stopping drops them.
+const SCROLL_INERTIA_SCALE = 16
+const SCROLL_SWAY = 0.3 // Sideways share of the kick, mirrored per glove so they swing apart
+
+interface Jab {
+  from: THREE.Vector3
+  to: THREE.Vector3
+  elapsed: number
+}
+
+interface GloveEntry {
+  config: GloveBodyConfig
+  body: RAPIER.RigidBody
+  rig: GloveRigState
+  params: GloveRigParams
+  random: () => number
+  /** Simulated ms since the glove was created or hung again — for the drop delay */
+  age: number
+  dragging: boolean
+  jab: Jab | null
+  lastScrollVelocity: number
+  paused: boolean
+}
+
+interface Cursor {
+  body: RAPIER.RigidBody
+  collider: RAPIER.Collider
+  solid: boolean
+}
+
+type Body = RAPIER.RigidBody
+
+const post = (message: GloveWorldMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer })
+
+let world: RAPIER.World | null = null
+let eventQueue: RAPIER.EventQueue | null = null
+let config: GloveWorldConfig | null = null
+const entries = new Map<string, GloveEntry>()
+const colliderOwners = new Map<number, string>() // Collider handle → glove id, for contact events
+const pending: GloveWorldCommand[] = []          // Commands that arrived before Rapier was ready
+let input: GloveWorldInput = { gravity: [0, -9.81, 0], wind: [0, 0, 0], scrollVelocity: 0, inSession: false }
+let events: GloveWorldEvent[] = []
+let cursor: Cursor | null = null
+let floor: Body | null = null
+let stepCount = 0                                 // Steps since the last reset
+let generation = 0                                // Which reset stepCount counts from
+let recording: GloveWorldStampedInput[] | null = null
+let replay: { inputs: GloveWorldStampedInput[]; next: number } | null = null
+
+let active = true
+let resumed = true // Next step follows a pause — the scroll kick has nothing to compare against
+let accumulator = 0
+let lastTick = 0
+let timer: ReturnType<typeof setTimeout> | null = null
+
+const _jabPos = new THREE.Vector3()
+const _quat = new THREE.Quaternion()
+const _euler = new THREE.Euler()
+
+function sameColliders(a: GloveBodyConfig, b: GloveBodyConfig): boolean {
+  return a.mass === b.mass &&
+    a.restitution === b.restitution &&
+    a.friction === b.friction &&
+    JSON.stringify(a.colliders) === JSON.stringify(b.colliders)
+}
+
+function colliderDesc(recipe: ColliderRecipe): RAPIER.ColliderDesc {
+  const desc = recipe.shape === 'ball'
+    ? RAPIER.ColliderDesc.ball(recipe.radius)
+    : recipe.shape === 'cylinder'
+      ? RAPIER.ColliderDesc.cylinder(recipe.halfHeight, recipe.radius)
+      : RAPIER.ColliderDesc.cuboid(...recipe.halfExtents)
+  const [px, py, pz] = recipe.position ?? [0, 0, 0]
+  desc.setTranslation(px, py, pz)
+  if (recipe.shape !== 'ball' && recipe.rotation) {
+    const q = _quat.setFromEuler(_euler.set(...recipe.rotation))
+    desc.setRotation({ x: q.x, y: q.y, z: q.z, w: q.w })
+  }
+  return desc
+}
+
+function buildColliders(entry: GloveEntry) {
+  for (let i = entry.body.numColliders() - 1; i >= 0; i--) {
+    const collider = entry.body.collider(i)
+    colliderOwners.delete(collider.handle)
+    world!.removeCollider(collider, false)
+  }
+  entry.config.colliders.forEach((recipe) => {
+    const desc = colliderDesc(recipe)
+      .setMass(entry.config.mass)
+      .setRestitution(entry.config.restitution)
+      .setFriction(entry.config.friction)
+      .setActiveEvents(RAPIER.ActiveEvents.CONTACT_FORCE_EVENTS)
+      .setCollisionGroups(entry.rig.snapped ? SNAPPED_GROUPS : HANGING_GROUPS)
+    colliderOwners.set(world!.createCollider(desc, entry.body).handle, entry.config.id)
+  })
+}
+
+function rigParams(body: GloveBodyConfig): GloveRigParams {
+  return {
+    anchor: new THREE.Vector3(...body.anchor),
+    startPosition: body.startPosition,
+    stringLength: body.stringLength,
+    springStrength: body.springStrength,
+    yRotation: body.yRotation,
+    breakingStrain: body.breakingStrain,
+  }
+}
+
+// Add new bodies, retune existing ones in place (they keep their motion) and
+// drop the ones that left the manifest
+function configure(next: GloveWorldConfig) {
+  config = next
+  const w = world!
+  w.gravity = { x: 0, y: next.gravity, z: 0 }
+
+  const ids = new Set(next.bodies.map((body) => body.id))
+  entries.forEach((entry, id) => {
+    if (ids.has(id)) return
+    for (let i = 0; i < entry.body.numColliders(); i++) colliderOwners.delete(entry.body.collider(i).handle)
+    w.removeRigidBody(entry.body)
+    entries.delete(id)
+  })
+
+  next.bodies.forEach((bodyConfig) => {
+    const existing = entries.get(bodyConfig.id)
+    if (existing) {
+      const rebuild = !sameColliders(existing.config, bodyConfig)
+      existing.config = bodyConfig
+      existing.params = rigParams(bodyConfig)
+      existing.body.setLinearDamping(bodyConfig.linearDamping)
+      existing.body.setAngularDamping(bodyConfig.angularDamping)
+      if (rebuild) buildColliders(existing)
+      return
+    }
+
+    const [x, y, z] = bodyConfig.startPosition
+    const q = _quat.setFromEuler(_euler.set(0, bodyConfig.yRotation, 0))
+    const body = w.createRigidBody(
+      RAPIER.RigidBodyDesc.dynamic()
+        .setTranslation(x, y, z)
+        .setRotation({ x: q.x, y: q.y, z: q.z, w: q.w })
+        .setLinearDamping(bodyConfig.linearDamping)
+        .setAngularDamping(bodyConfig.angularDamping)
+    )
+    const entry: GloveEntry = {
+      config: bodyConfig,
+      body,
+      rig: createGloveRigState(bodyConfig.dropDelay === 0),
+      params: rigParams(bodyConfig),
+      random: mulberry32(seedFromString(bodyConfig.id)),
+      age: 0,
+      dragging: false,
+      jab: null,
+      lastScrollVelocity: 0,
+      paused: false,
+    }
+    entries.set(bodyConfig.id, entry)
+    buildColliders(entry)
+  })
+}
+
+// Back to a dynamic body with this velocity. Yaw spin is heavily damped so
+// the gravity torque can steer the glove front-facing again.
+function letGo(entry: GloveEntry, [vx, vy, vz]: Vec3) {
+  entry.dragging = false
+  entry.body.setBodyType(RAPIER.RigidBodyType.Dynamic, true)
+  entry.body.setLinvel({ x: vx, y: vy, z: vz }, true)
+  const angVel = entry.body.angvel()
+  entry.body.setAngvel({ x: angVel.x, y: angVel.y * FLING_YAW_KEEP, z: angVel.z }, true)
+}
+
+// Tap-punch: the kinematic fist eases out to full extension, then recoils as
+// a dynamic body so the rig settles it back
+function stepJab(entry: GloveEntry) {
+  const jab = entry.jab
+  if (!jab) return
+
+  jab.elapsed += PHYSICS_TIMESTEP
+  const progress = Math.min(jab.elapsed / JAB_DURATION, 1)
+  const eased = 1 - Math.pow(1 - progress, 3)
+  const pos = _jabPos.lerpVectors(jab.from, jab.to, eased)
+  entry.body.setNextKinematicTranslation({ x: pos.x, y: pos.y, z: pos.z })
+  if (progress < 1) return
+
+  entry.jab = null
+  const recoil = jab.from.clone().sub(jab.to).setLength(JAB_RECOIL_SPEED)
+  letGo(entry, [recoil.x, recoil.y, recoil.z])
+  events.push({ type: 'jabLanded', id: entry.config.id, to: [jab.to.x, jab.to.y, jab.to.z] })
+}
+
+// The pointer as a kinematic ball: Rapier hands its swipe velocity to any
+// glove it hits. While not solid it jumps straight to the pointer, so turning
+// solid mid-swipe never sweeps through everything since the last swipe.
+function createCursor(w: RAPIER.World): Cursor {
+  const body = w.createRigidBody(RAPIER.RigidBodyDesc.kinematicPositionBased())
+  const collider = w.createCollider(
+    RAPIER.ColliderDesc.ball(CURSOR_RADIUS).setActiveEvents(RAPIER.ActiveEvents.CONTACT_FORCE_EVENTS),
+    body
+  )
+  collider.setEnabled(false)
+  return { body, collider, solid: false }
+}
+
+function createFloor(w: RAPIER.World): Body {
+  const body = w.createRigidBody(RAPIER.RigidBodyDesc.fixed().setTranslation(0, -1000, 0))
+  w.createCollider(
+    RAPIER.ColliderDesc.cuboid(...FLOOR_HALF_EXTENTS)
+      .setRestitution(FLOOR_RESTITUTION)
+      .setCollisionGroups(FLOOR_GROUPS),
+    body
+  )
+  return body
+}
+
+function moveCursor([x, y, z]: Vec3, solid: boolean) {
+  if (!cursor) return
+  if (solid && cursor.solid) cursor.body.setNextKinematicTranslation({ x, y, z })
+  else cursor.body.setTranslation({ x, y, z }, true)
+  cursor.collider.setEnabled(solid)
+  cursor.solid = solid
+}
+
+function setCollisionGroups(entry: GloveEntry, groups: number) {
+  for (let i = 0; i < entry.body.numColliders(); i++) entry.body.collider(i).setCollisionGroups(groups)
+}
+
+function exceedsBreakingStrain(entry: GloveEntry, speed: number): boolean {
+  return entry.config.breakingStrain > 0 && speed > entry.config.breakingStrain
+}
+
+// The rope broke: the glove tumbles free and can land on the floor
+function snapRope(entry: GloveEntry, speed: number) {
+  entry.rig.snapped = true
+  setCollisionGroups(entry, SNAPPED_GROUPS)
+  const spin = () => (entry.random() - 0.5) * 2 * SNAP_TUMBLE
+  const angVel = entry.body.angvel()
+  entry.body.setAngvel({ x: angVel.x + spin(), y: angVel.y + spin(), z: angVel.z + spin() }, true)
+  events.push({ type: 'snap', id: entry.config.id, speed })
+}
+
+// A fresh glove at the start position, held for dropDelay and then dropped in
+// exactly like the first time
+function rehang(entry: GloveEntry) {
+  const { startPosition: [x, y, z], yRotation, dropDelay } = entry.config
+  const q = _quat.setFromEuler(_euler.set(0, yRotation, 0))
+  entry.body.setTranslation({ x, y, z }, true)
+  entry.body.setRotation({ x: q.x, y: q.y, z: q.z, w: q.w }, true)
+  entry.body.setLinvel({ x: 0, y: 0, z: 0 }, true)
+  entry.body.setAngvel({ x: 0, y: 0, z: 0 }, true)
+  entry.rig = createGloveRigState(dropDelay === 0)
+  entry.age = 0
+  setCollisionGroups(entry, HANGING_GROUPS)
+}
+
+// Every glove rehung and reseeded from the same state, with the step count
+// from zero — so a recording and its replay start out identical
+function reset(seed: number) {
+  stepCount = 0
+  resumed = true
+  entries.forEach((entry) => {
+    entry.dragging = false
+    entry.jab = null
+    entry.lastScrollVelocity = 0
+    entry.random = mulberry32(seedFromString(entry.config.id) ^ seed)
+    entry.body.setBodyType(RAPIER.RigidBodyType.Dynamic, true)
+    rehang(entry)
+    events.push({ type: 'reset', id: entry.config.id })
+  })
+}
+
+// A replay ending (or cancelled) mid-drag lets go of the glove where it is
+function endReplay() {
+  replay = null
+  entries.forEach((entry) => {
+    if (entry.dragging && !entry.jab) letGo(entry, [0, 0, 0])
+  })
+}
+
+function addVelocity(body: Body, x: number, y: number, z: number) {
+  const vel = body.linvel()
+  body.setLinvel({ x: vel.x + x, y: vel.y + y, z: vel.z + z }, true)
+}
+
+function step() {
+  const w = world!
+  const settings = config!
+  // Sessions run on straight-down gravity — the log doesn't carry the phone's tilt
+  const [gx, gy, gz] = input.inSession ? [0, settings.gravity, 0] : input.gravity
+  w.gravity = { x: gx, y: gy, z: gz }
+  const [wx, wy, wz] = settings.reducedMotion || input.inSession ? [0, 0, 0] : input.wind
+
+  while (replay && replay.next < replay.inputs.length && replay.inputs[replay.next].step <= stepCount) {
+    applyInput(replay.inputs[replay.next++])
+  }
+
+  entries.forEach((entry) => {
+    if (entry.paused) return
+    const { body, rig, config: bodyConfig } = entry
+    const id = bodyConfig.id
+
+    entry.age += STEP_MS
+    if (!rig.dropDelayElapsed && entry.age >= bodyConfig.dropDelay) {
+      rig.dropDelayElapsed = true
+    }
+
+    stepJab(entry)
+    rig.dragging = entry.dragging
+    stepGloveRig(body, rig, entry.params, PHYSICS_TIMESTEP, entry.random, {
+      onDrop: () => events.push({ type: 'drop', id }),
+      onStringBounce: (radialSpeed) => events.push({ type: 'bounce', id, radialSpeed }),
+      onSnap: (radialSpeed) => snapRope(entry, radialSpeed),
+    })
+
+    // Scroll inertia: the page accelerating is felt as a kick opposite to it.
+    // Left out of sessions — the scroll velocity arrives per rendered frame
+    const scrollChange = resumed ? 0 : input.scrollVelocity - entry.lastScrollVelocity
+    entry.lastScrollVelocity = input.scrollVelocity
+    if (!settings.reducedMotion && !input.inSession && !entry.dragging && rig.hasDropped && scrollChange !== 0 && settings.scrollInertia > 0) {
+      const kick = scrollChange * SCROLL_INERTIA_SCALE * settings.scrollInertia
+      addVelocity(body, bodyConfig.mirror * kick * SCROLL_SWAY, kick, 0)
+    }
+
+    // Weather wind — a gentle gusting sway
+    if (!entry.dragging && rig.hasDropped && (wx !== 0 || wy !== 0 || wz !== 0)) {
+      addVelocity(body, wx * PHYSICS_TIMESTEP, wy * PHYSICS_TIMESTEP, wz * PHYSICS_TIMESTEP)
+    }
+  })
+  resumed = false
+
+  w.timestep = PHYSICS_TIMESTEP
+  w.step(eventQueue!)
+  stepCount++
+  eventQueue!.drainContactForceEvents((event) => {
+    const force = event.totalForceMagnitude()
+    const handles = [event.collider1(), event.collider2()]
+    const knocked = cursor !== null && handles.includes(cursor.collider.handle)
+    handles.forEach((handle) => {
+      const id = colliderOwners.get(handle)
+      if (!id) return
+      events.push({ type: 'contact', id, force })
+      if (knocked) events.push({ type: 'knock', id, force })
+    })
+  })
+}
+
+function postSnapshot(steps: number) {
+  const ids = [...entries.keys()]
+  const buffer = new Float32Array(ids.length * SNAPSHOT_STRIDE)
+  ids.forEach((id, i) => {
+    const { body, rig, dragging, jab, paused } = entries.get(id)!
+    const o = i * SNAPSHOT_STRIDE
+    const p = body.translation()
+    const r = body.rotation()
+    const v = body.linvel()
+    const a = body.angvel()
+    buffer.set([p.x, p.y, p.z], o + SNAPSHOT_POSITION)
+    buffer.set([r.x, r.y, r.z, r.w], o + SNAPSHOT_ROTATION)
+    buffer.set([v.x, v.y, v.z], o + SNAPSHOT_LINVEL)
+    buffer.set([a.x, a.y, a.z], o + SNAPSHOT_ANGVEL)
+    buffer[o + SNAPSHOT_TWIST] = rig.twist
+    buffer[o + SNAPSHOT_SETTLED] = rig.settledTime
+    buffer[o + SNAPSHOT_FLAGS] =
+      (rig.dropDelayElapsed ? SNAPSHOT_FLAG_DROP_DELAY_ELAPSED : 0) |
+      (rig.hasDropped ? SNAPSHOT_FLAG_HAS_DROPPED : 0) |
+      (dragging || jab || paused ? SNAPSHOT_FLAG_HELD : 0) |
+      (rig.snapped ? SNAPSHOT_FLAG_SNAPPED : 0)
+  })
+  post({ type: 'snapshot', step: stepCount, generation, ids, steps, buffer, events }, [buffer.buffer])
+  events = []
+}
+
+// Fixed-step loop on the worker clock, woken for the next step boundary
+function tick() {
+  timer = null
+  if (!active || !world || !config) return
+  const now = performance.now()
+  accumulator += now - lastTick
+  lastTick = now
+
+  let steps = 0
+  while (accumulator >= STEP_MS && steps < MAX_STEPS_PER_TICK) {
+    step()
+    accumulator -= STEP_MS
+    steps++
+  }
+  if (steps === MAX_STEPS_PER_TICK) accumulator = 0 // Drop backlog after a stall
+  if (steps > 0) postSnapshot(steps)
+  timer = setTimeout(tick, Math.max(0, STEP_MS - accumulator))
+}
+
+function start() {
+  if (timer !== null || !active || !world || !config) return
+  accumulator = 0
+  lastTick = performance.now()
+  timer = setTimeout(tick, STEP_MS)
+}
+
+function isInputCommand(command: GloveWorldCommand): command is GloveWorldInputCommand {
+  return command.type === 'grab' || command.type === 'move' || command.type === 'release' ||
+    command.type === 'punch' || command.type === 'impulse'
+}
+
+// Visitor input — live, or from a replay at its recorded step
+function applyInput(command: GloveWorldInputCommand) {
+  const entry = entries.get(command.id)
+  if (!entry || entry.paused) return
+  const { body } = entry
+  switch (command.type) {
+    case 'grab':
+      if (entry.rig.snapped) break
+      entry.dragging = true
+      entry.jab = null
+      body.setBodyType(RAPIER.RigidBodyType.KinematicPositionBased, true)
+      break
+    case 'move':
+      if (entry.dragging && !entry.jab) {
+        const [x, y, z] = command.position
+        body.setNextKinematicTranslation({ x, y, z })
+      }
+      break
+    case 'release':
+      if (entry.dragging && !entry.jab) {
+        letGo(entry, command.velocity)
+        const speed = Math.hypot(...command.velocity)
+        events.push({ type: 'fling', id: command.id, speed })
+        if (exceedsBreakingStrain(entry, speed)) snapRope(entry, speed)
+      }
+      break
+    case 'punch':
+      if (entry.dragging && !entry.jab) {
+        const from = new THREE.Vector3(...command.from)
+        const to = new THREE.Vector3(...command.to)
+        entry.jab = { from, to, elapsed: 0 }
+        events.push({ type: 'fling', id: command.id, speed: from.distanceTo(to) / JAB_DURATION })
+      }
+      break
+    case 'impulse': {
+      const [lx, ly, lz] = command.linear
+      const [ax, ay, az] = command.angular
+      addVelocity(body, lx, ly, lz)
+      const angVel = body.angvel()
+      body.setAngvel({ x: angVel.x + ax, y: angVel.y + ay, z: angVel.z + az }, true)
+      break
+    }
+  }
+}
+
+function handle(command: GloveWorldCommand) {
+  if (isInputCommand(command)) {
+    // While a replay drives the gloves, live input would only knock it off course
+    if (replay) return
+    recording?.push({ ...command, step: stepCount })
+    applyInput(command)
+    return
+  }
+  if (command.type === 'reset') {
+    generation = command.generation
+    reset(command.seed)
+    return
+  }
+  if (command.type === 'record') {
+    if (command.recording) {
+      recording = []
+    } else {
+      post({ type: 'recording', inputs: recording ?? [], steps: stepCount })
+      recording = null
+    }
+    return
+  }
+  if (command.type === 'replay') {
+    if (command.inputs.length > 0) replay = { inputs: command.inputs, next: 0 }
+    else endReplay()
+    return
+  }
+  if (command.type === 'configure') {
+    configure(command.config)
+    start()
+    return
+  }
+  if (command.type === 'input') {
+    input = command.input
+    return
+  }
+  if (command.type === 'active') {
+    if (command.active === active) return
+    active = command.active
+    if (active) {
+      // Pick up exactly where the world stopped: no catch-up steps, no scroll kick
+      resumed = true
+      start()
+    } else if (timer !== null) {
+      clearTimeout(timer)
+      timer = null
+    }
+    return
+  }
+  if (command.type === 'cursor') {
+    moveCursor(command.position, command.solid)
+    return
+  }
+  if (command.type === 'floor') {
+    // The floor's top face sits at y
+    floor?.setTranslation({ x: 0, y: command.y - FLOOR_HALF_EXTENTS[1], z: 0 }, true)
+    return
+  }
+
+  const entry = entries.get(command.id)
+  if (!entry) return
+  const { body } = entry
+  if (command.type === 'pause') {
+    // A disabled body keeps its pose and velocity and drops out of the
+    // simulation, so it picks up exactly where it stopped
+    entry.paused = command.paused
+    body.setEnabled(!command.paused)
+    return
+  }
+  if (entry.paused) return
+  switch (command.type) {
+    case 'place': {
+      const [x, y, z] = command.position
+      body.setTranslation({ x, y, z }, true)
+      break
+    }
+    case 'velocity': {
+      const [lx, ly, lz] = command.linear
+      const [ax, ay, az] = command.angular
+      addVelocity(body, lx, ly, lz)
+      const angVel = body.angvel()
+      body.setAngvel({ x: angVel.x + ax, y: angVel.y + ay, z: angVel.z + az }, true)
+      break
+    }
+    case 'rehang':
+      if (entry.rig.snapped) rehang(entry)
+      break
+    case 'reseed':
+      entry.random = mulberry32(seedFromString(command.id) ^ command.seed)
+      break
+  }
+}
+
+self.onmessage = (e: MessageEvent<GloveWorldCommand>) => {
+  if (world) handle(e.data)
+  else pending.push(e.data)
+}
+
+RAPIER.init().then(() => {
+  world = new RAPIER.World({ x: 0, y: -9.81, z: 0 })
+  eventQueue = new RAPIER.EventQueue(true)
+  cursor = createCursor(world)
+  floor = createFloor(world)
+  pending.splice(0).forEach(handle)
+}).catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error)
+  console.warn('[gloveWorld] Rapier failed to initialize — the gloves will stay put', message)
+  post({ type: 'error', message })
+})
@@ -7,12 +7,15 @@ export default defineConfig({
   server: {
     host: true
   },
+  // The glove physics worker is an ES module (new Worker(..., { type: 'module' }))
+  worker: {
+    format: 'es',
+  },
   build: {
     rollupOptions: {
       output: {
         manualChunks: {
           'three-vendor': ['three', '@react-three/fiber', '@react-three/drei'],
-          'physics': ['@react-three/rapier'],
           'motion': ['framer-motion'],
           'gsap': ['gsap'],
         },